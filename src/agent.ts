@@ -0,0 +1,350 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {randomUUID} from 'node:crypto';
+import {AIMessage, type BaseMessage, HumanMessage, SystemMessage} from '@langchain/core/messages';
+import type {StructuredToolInterface} from '@langchain/core/tools';
+import {createReactAgent} from '@langchain/langgraph/prebuilt';
+import {type Attributes, context, type Span, trace} from '@opentelemetry/api';
+import {
+  createBudgetedModel,
+  createRunBudget,
+  DEFAULT_MAX_TOOL_CALLS,
+  recursionLimitFor,
+  type RunBudget,
+} from './budget.js';
+import {appendHistory, InMemoryConversationStore, loadHistory, trimHistory} from './conversation.js';
+import {resolveLLMProvider} from './llm.js';
+import {localizedDeclineMessage, resolveLocale} from './locale.js';
+import {admitQuestion, DEFAULT_TENANT, graphqlCallQuotaExceeded, quotaExceededAnswer, quotaMessage} from './quota.js';
+import {type AgentResult, buildStructuredAnswer, extractText, NO_RESPONSE_MESSAGE} from './result.js';
+import {classifyScope, preflightAnswer, type ProjectScope} from './scope.js';
+import {toAgentEvents} from './stream.js';
+import {bindContext, LLMSpanHandler, recordError, withSpan} from './tracing.js';
+import type {
+  GraphQLAgent,
+  GraphQLAgentConfig,
+  GraphQLAgentEvent,
+  GraphQLAgentSession,
+  InvokeOptions,
+  LLMUsage,
+  QuotaExceeded,
+  ScopeClassification,
+  StructuredAnswer,
+} from './types.js';
+import {reportUsage, UsageTracker} from './usage.js';
+
+export type AgentRunnerOptions = {
+  tools: StructuredToolInterface[];
+  // Builds the system prompt for each invocation
+  systemPrompt: (maxToolCalls: number, locale?: string) => string;
+  // Used to detect declined questions in structured answers
+  declineMessage: string;
+  // Translations of the decline message by language tag, used for localized invocations
+  declineMessages?: Record<string, string>;
+  // Tool call budget when agentConfig.limits doesn't set one
+  defaultMaxToolCalls?: number;
+  // Added to the span of every invocation when agentConfig.tracer is set
+  spanAttributes?: Attributes;
+  // Capabilities the scope classifier compares questions against
+  scope?: ProjectScope;
+  // Questions are admitted against agentConfig.quota by a wrapper, e.g. the answer cache, the runner only sizes budgets
+  admitted?: boolean;
+};
+
+// Shared ReAct loop behind the single project and router agents: sessions, budget, streaming and structured answers
+export function createAgentRunner(agentConfig: GraphQLAgentConfig, runner: AgentRunnerOptions): GraphQLAgent {
+  const limits = {
+    ...agentConfig.limits,
+    maxToolCalls: agentConfig.limits?.maxToolCalls ?? runner.defaultMaxToolCalls ?? DEFAULT_MAX_TOOL_CALLS,
+  };
+  const llm = resolveLLMProvider(agentConfig.llm).getAgentModel();
+  const {tools} = runner;
+  const agent = createReactAgent({llm: createBudgetedModel(llm, tools), tools}).withConfig({
+    recursionLimit: recursionLimitFor(limits),
+  });
+  const conversationStore = agentConfig.conversation?.store ?? new InMemoryConversationStore();
+  const maxHistoryTokens = agentConfig.conversation?.maxHistoryTokens;
+  // Validated up front, so an invalid configured locale fails when the agent is created
+  const defaultLocale = agentConfig.locale ? resolveLocale(agentConfig.locale) : undefined;
+  const localeOf = (options?: InvokeOptions) => (options?.locale ? resolveLocale(options.locale) : defaultLocale);
+  const declineMessage = (locale?: string) => localizedDeclineMessage(runner, locale);
+
+  const buildMessages = async (question: string, options?: InvokeOptions): Promise<BaseMessage[]> => {
+    const systemPrompt = runner.systemPrompt(limits.maxToolCalls, localeOf(options));
+    const history = options?.history
+      ? await trimHistory(options.history, maxHistoryTokens)
+      : options?.threadId
+        ? await loadHistory(conversationStore, options.threadId, maxHistoryTokens)
+        : [];
+    return [new SystemMessage(systemPrompt), ...history, new HumanMessage(question)];
+  };
+
+  // inputCount is the number of messages the run was started with, the question is the last of them
+  const finishRun = async (result: AgentResult, inputCount: number, threadId?: string): Promise<string> => {
+    if (threadId && Array.isArray(result?.messages)) {
+      await appendHistory(conversationStore, threadId, result.messages.slice(inputCount - 1));
+    }
+    return extractText(result) || NO_RESPONSE_MESSAGE;
+  };
+
+  const {quota, tracer} = agentConfig;
+  const tenantOf = (options?: InvokeOptions) => options?.tenant ?? DEFAULT_TENANT;
+
+  // Turns the question away when the tenant is over a limit, otherwise sizes the GraphQL call budget from its quota
+  const startRun = async (
+    options?: InvokeOptions,
+    span?: Span
+  ): Promise<{budget: RunBudget; exceeded?: QuotaExceeded}> => {
+    if (!quota) {
+      return {budget: createRunBudget(limits)};
+    }
+    const tenant = tenantOf(options);
+    const exceeded = runner.admitted ? undefined : await admitQuestion(quota, tenant, agentConfig.logger);
+    if (exceeded) {
+      span?.setAttribute('graphql_agent.quota_exceeded', exceeded.limit);
+      return {budget: createRunBudget(limits), exceeded};
+    }
+    try {
+      return {budget: createRunBudget(limits, (await quota.limits(tenant)).graphqlCallsPerQuestion)};
+    } catch (error) {
+      agentConfig.logger?.warn(
+        {error: error instanceof Error ? error.message : String(error)},
+        'Looking up the quota limits failed'
+      );
+      return {budget: createRunBudget(limits)};
+    }
+  };
+
+  const runQuotaExceeded = (budget: RunBudget, options?: InvokeOptions, span?: Span) => {
+    const exceeded = quota ? graphqlCallQuotaExceeded(budget, tenantOf(options)) : undefined;
+    if (exceeded) {
+      span?.setAttribute('graphql_agent.quota_exceeded', exceeded.limit);
+    }
+    return exceeded;
+  };
+
+  const chargeTokens = async (usage: LLMUsage, options?: InvokeOptions): Promise<void> => {
+    try {
+      await quota?.recordTokens(tenantOf(options), usage.totalTokens);
+    } catch (error) {
+      agentConfig.logger?.warn(
+        {error: error instanceof Error ? error.message : String(error)},
+        'Recording the token quota failed'
+      );
+    }
+  };
+
+  const classifier = agentConfig.scopeClassifier;
+  const classifierModel = classifier?.model ?? llm;
+
+  // Follow-up questions depend on the conversation, so only a question without prior turns is classified
+  const classify = async (
+    question: string,
+    messages: BaseMessage[],
+    config: ReturnType<typeof runConfig>,
+    span?: Span,
+    locale?: string
+  ): Promise<ScopeClassification | undefined> => {
+    if (!runner.scope || !classifier || classifier.enabled === false || messages.length > 2) {
+      return undefined;
+    }
+    try {
+      const classification = await classifyScope(
+        classifierModel,
+        question,
+        runner.scope,
+        config.signal,
+        config.callbacks,
+        locale
+      );
+      span?.setAttributes({
+        'graphql_agent.scope': classification.scope,
+        'graphql_agent.scope_confidence': classification.confidence,
+        'graphql_agent.scope_capability': classification.capability,
+      });
+      return classification;
+    } catch (error) {
+      if (config.signal?.aborted) {
+        throw error;
+      }
+      // A failed classification only loses the shortcut, the agent still answers
+      agentConfig.logger?.warn(
+        {error: error instanceof Error ? error.message : String(error)},
+        'Scope classification failed'
+      );
+      return undefined;
+    }
+  };
+
+  // Runs the agent, unless the classification already answers the question
+  const run = async (
+    messages: BaseMessage[],
+    classification: ScopeClassification | undefined,
+    config: ReturnType<typeof runConfig>,
+    locale?: string
+  ): Promise<AgentResult> => {
+    const answer = preflightAnswer(classification, declineMessage(locale), classifier?.threshold);
+    return answer ? {messages: [...messages, new AIMessage(answer)]} : agent.invoke({messages}, config);
+  };
+
+  const runConfig = (budget: RunBudget, tracker: UsageTracker, signal?: AbortSignal, span?: Span) => ({
+    configurable: {budget},
+    callbacks:
+      tracer && span ? [tracker, new LLMSpanHandler(tracer, trace.setSpan(context.active(), span))] : [tracker],
+    ...(signal ? {signal} : {}),
+  });
+
+  const spanAttributes = (operation: string, options?: InvokeOptions): Attributes => ({
+    ...runner.spanAttributes,
+    'graphql_agent.operation': operation,
+    'graphql_agent.thread_id': options?.threadId,
+    'graphql_agent.locale': options?.locale ?? defaultLocale,
+    'graphql_agent.tenant': options?.tenant,
+  });
+
+  // Usage is reported once per invocation, whether it completes, fails or is cancelled
+  const trackUsage = (question: string, options?: InvokeOptions, span?: Span) => {
+    const tracker = new UsageTracker();
+    let usage: LLMUsage | undefined;
+    const report = (): LLMUsage => {
+      usage = reportUsage(
+        agentConfig.usage,
+        tracker,
+        {operation: 'invoke', question, threadId: options?.threadId},
+        agentConfig.logger
+      );
+      span?.setAttributes({
+        'gen_ai.usage.input_tokens': usage.promptTokens,
+        'gen_ai.usage.output_tokens': usage.completionTokens,
+        'graphql_agent.llm_calls': usage.llmCalls,
+      });
+      return usage;
+    };
+    return {tracker, report: (): LLMUsage => usage ?? report()};
+  };
+
+  const invoke = async (question: string, options?: InvokeOptions): Promise<string> =>
+    withSpan(tracer, 'graphql_agent.invoke', spanAttributes('invoke', options), async (span) => {
+      const {budget, exceeded} = await startRun(options, span);
+      if (exceeded) {
+        return quotaMessage(exceeded);
+      }
+      const messages = await buildMessages(question, options);
+      const usage = trackUsage(question, options, span);
+      try {
+        const config = runConfig(budget, usage.tracker, options?.signal, span);
+        const locale = localeOf(options);
+        const result = await run(messages, await classify(question, messages, config, span, locale), config, locale);
+        return await finishRun(result, messages.length, options?.threadId);
+      } finally {
+        span?.setAttribute('graphql_agent.partial', budget.exhausted);
+        await chargeTokens(usage.report(), options);
+      }
+    });
+
+  const invokeStructured = async (question: string, options?: InvokeOptions): Promise<StructuredAnswer> =>
+    withSpan(tracer, 'graphql_agent.invoke', spanAttributes('invoke_structured', options), async (span) => {
+      const {budget, exceeded} = await startRun(options, span);
+      if (exceeded) {
+        return quotaExceededAnswer(exceeded);
+      }
+      const messages = await buildMessages(question, options);
+      const usage = trackUsage(question, options, span);
+      try {
+        const config = runConfig(budget, usage.tracker, options?.signal, span);
+        const locale = localeOf(options);
+        const scope = await classify(question, messages, config, span, locale);
+        const result = await run(messages, scope, config, locale);
+        await finishRun(result, messages.length, options?.threadId);
+        const answer = buildStructuredAnswer(
+          result,
+          messages.length,
+          declineMessage(locale),
+          usage.report(),
+          budget.exhausted
+        );
+        span?.setAttribute('graphql_agent.declined', answer.declined);
+        const quotaExceeded = runQuotaExceeded(budget, options, span);
+        return {...answer, ...(scope ? {scope} : {}), ...(quotaExceeded ? {quotaExceeded} : {})};
+      } finally {
+        span?.setAttribute('graphql_agent.partial', budget.exhausted);
+        await chargeTokens(usage.report(), options);
+      }
+    });
+
+  async function* stream(question: string, options?: InvokeOptions): AsyncGenerator<GraphQLAgentEvent> {
+    // A generator can't run inside startActiveSpan, the span context is bound to every step of the run instead
+    const span = tracer?.startSpan('graphql_agent.invoke', {attributes: spanAttributes('stream', options)});
+    const spanContext = span ? trace.setSpan(context.active(), span) : context.active();
+    let rootRunId: string | undefined;
+    let result: AgentResult = {};
+    let budget = createRunBudget(limits);
+    const usage = trackUsage(question, options, span);
+
+    try {
+      const start = await startRun(options, span);
+      if (start.exceeded) {
+        const answer = quotaMessage(start.exceeded);
+        yield {type: 'final', answer, partial: false, usage: usage.report(), quotaExceeded: start.exceeded};
+        return;
+      }
+      budget = start.budget;
+      const messages = await buildMessages(question, options);
+      const config = {...runConfig(budget, usage.tracker, options?.signal, span), version: 'v2' as const};
+      const locale = localeOf(options);
+      const scope = await context.with(spanContext, async () => classify(question, messages, config, span, locale));
+      if (scope) {
+        yield {type: 'scope', ...scope};
+      }
+
+      const preflight = preflightAnswer(scope, declineMessage(locale), classifier?.threshold);
+      if (preflight) {
+        result = {messages: [...messages, new AIMessage(preflight)]};
+      } else {
+        for await (const event of bindContext(spanContext, agent.streamEvents({messages}, config))) {
+          // The first event is the start of the graph run itself, its end event carries the final state
+          rootRunId ??= event.run_id;
+          if (event.event === 'on_chain_end' && event.run_id === rootRunId) {
+            result = event.data.output as AgentResult;
+          }
+          yield* toAgentEvents(event);
+        }
+      }
+
+      const answer = await finishRun(result, messages.length, options?.threadId);
+      const quotaExceeded = runQuotaExceeded(budget, options, span);
+      yield {
+        type: 'final',
+        answer,
+        partial: budget.exhausted,
+        usage: usage.report(),
+        ...(quotaExceeded ? {quotaExceeded} : {}),
+      };
+    } catch (error) {
+      if (span) {
+        recordError(span, error);
+      }
+      throw error;
+    } finally {
+      span?.setAttribute('graphql_agent.partial', budget.exhausted);
+      await chargeTokens(usage.report(), options);
+      span?.end();
+    }
+  }
+
+  return {
+    invoke,
+    invokeStructured,
+    stream,
+    createSession(threadId?: string): GraphQLAgentSession {
+      const id = threadId ?? randomUUID();
+      return {
+        threadId: id,
+        invoke: async (question: string) => invoke(question, {threadId: id}),
+        invokeStructured: async (question: string) => invokeStructured(question, {threadId: id}),
+        stream: (question: string) => stream(question, {threadId: id}),
+      };
+    },
+  };
+}
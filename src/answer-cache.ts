@@ -0,0 +1,339 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {createHash} from 'node:crypto';
+import type {Logger} from 'pino';
+import {GraphQLService} from './graphql.service.js';
+import {resolveLocale} from './locale.js';
+import {admitQuestion, DEFAULT_TENANT, noUsage, type QuotaLimiter, quotaExceededAnswer, quotaMessage} from './quota.js';
+import type {
+  AnswerCacheOptions,
+  AnswerCacheStore,
+  CachedAnswer,
+  FetchFn,
+  GraphQLAgent,
+  GraphQLAgentEvent,
+  GraphQLProjectConfig,
+  InvokeOptions,
+  StructuredAnswer,
+} from './types.js';
+
+export const DEFAULT_ANSWER_TTL_MS = 60 * 60 * 1000;
+export const DEFAULT_MIN_SIMILARITY = 0.95;
+
+// Questions differing only in case, punctuation or spacing share an entry
+export function normalizeQuestion(question: string): string {
+  return question
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Callers with another credential can see other data, so their answers are kept apart. Only a hash is stored
+function credentialOf(project: GraphQLProjectConfig): string | undefined {
+  return project.authorization
+    ? createHash('sha256').update(project.authorization).digest('hex').slice(0, 16)
+    : undefined;
+}
+
+function answerKey(question: string, credential?: string, locale?: string): string {
+  return [credential, locale, normalizeQuestion(question)].filter((part) => part !== undefined).join(':');
+}
+
+function isExpired(entry: CachedAnswer, now = Date.now()): boolean {
+  return Date.parse(entry.expiresAt) <= now;
+}
+
+// Keeps cached answers for the lifetime of the process, expired entries are dropped when read.
+// Entries are copied in and out, so callers changing an answer don't change the cache
+export class InMemoryAnswerCacheStore implements AnswerCacheStore {
+  private deployments = new Map<string, Map<string, CachedAnswer>>();
+
+  async get(cid: string, key: string): Promise<CachedAnswer | undefined> {
+    const entry = this.deployments.get(cid)?.get(key);
+    if (entry && isExpired(entry)) {
+      this.deployments.get(cid)?.delete(key);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(entry && structuredClone(entry));
+  }
+
+  async set(entry: CachedAnswer): Promise<void> {
+    let entries = this.deployments.get(entry.cid);
+    if (!entries) {
+      entries = new Map();
+      this.deployments.set(entry.cid, entries);
+    }
+    entries.set(entry.key, structuredClone(entry));
+    return Promise.resolve();
+  }
+
+  async list(cid: string): Promise<CachedAnswer[]> {
+    const entries = this.deployments.get(cid);
+    for (const [key, entry] of entries ?? []) {
+      if (isExpired(entry)) {
+        entries?.delete(key);
+      }
+    }
+    return Promise.resolve([...(entries?.values() ?? [])].map((entry) => structuredClone(entry)));
+  }
+
+  async clear(cid: string): Promise<void> {
+    this.deployments.delete(cid);
+    return Promise.resolve();
+  }
+}
+
+// Result of a cache lookup, pass it to save() on a miss so the question isn't embedded twice
+export type AnswerCacheLookup = {
+  key: string;
+  locale?: string;
+  embedding?: number[];
+  entry?: CachedAnswer;
+};
+
+/**
+ * Answers keyed by the deployment CID, the caller's credential and the normalized (or embedded) question.
+ * A project deployed with a new CID never matches the answers of the previous deployment,
+ * which are removed the first time the cache sees the new CID of the endpoint.
+ */
+export class AnswerCache {
+  private readonly store: AnswerCacheStore;
+  private readonly ttlMs: number;
+  // Last CID seen for every endpoint
+  private readonly cids = new Map<string, string>();
+
+  constructor(private readonly options: AnswerCacheOptions = {}) {
+    this.store = options.store ?? new InMemoryAnswerCacheStore();
+    this.ttlMs = options.ttlMs ?? DEFAULT_ANSWER_TTL_MS;
+  }
+
+  // Answers in another language or fetched with another credential are separate entries, both are part of the key
+  async lookup(project: GraphQLProjectConfig, question: string, locale?: string): Promise<AnswerCacheLookup> {
+    await this.trackDeployment(project);
+    const resolved = locale ? resolveLocale(locale) : undefined;
+    const credential = credentialOf(project);
+    const key = answerKey(question, credential, resolved);
+    const miss: AnswerCacheLookup = resolved ? {key, locale: resolved} : {key};
+    const exact = await this.store.get(project.cid, key);
+    if (exact && !isExpired(exact)) {
+      return {...miss, entry: exact};
+    }
+    if (!this.options.embed) {
+      return miss;
+    }
+
+    const embedding = await this.options.embed(question);
+    const minSimilarity = this.options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    let best: {entry: CachedAnswer; similarity: number} | undefined;
+    for (const entry of await this.store.list(project.cid)) {
+      if (!entry.embedding || isExpired(entry) || entry.locale !== resolved || entry.credential !== credential) {
+        continue;
+      }
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= minSimilarity && similarity > (best?.similarity ?? 0)) {
+        best = {entry, similarity};
+      }
+    }
+    return best ? {...miss, embedding, entry: best.entry} : {...miss, embedding};
+  }
+
+  async save(
+    project: GraphQLProjectConfig,
+    question: string,
+    answer: StructuredAnswer,
+    lookup?: AnswerCacheLookup
+  ): Promise<CachedAnswer> {
+    const embedding = lookup?.embedding ?? (await this.options.embed?.(question));
+    const now = Date.now();
+    const credential = credentialOf(project);
+    const entry: CachedAnswer = {
+      cid: project.cid,
+      ...(lookup?.locale ? {locale: lookup.locale} : {}),
+      ...(credential ? {credential} : {}),
+      question,
+      key: lookup?.key ?? answerKey(question, credential),
+      ...(embedding ? {embedding} : {}),
+      answer: answer.answer,
+      queries: answer.queries,
+      data: answer.data,
+      declined: answer.declined,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    };
+    await this.store.set(entry);
+    return entry;
+  }
+
+  /**
+   * Runs the successful queries of a cached answer again to get current data, without calling the LLM.
+   * The answer text is kept as generated, read the refreshed `data` for the current values.
+   */
+  async refresh(
+    project: GraphQLProjectConfig,
+    question: string,
+    options: {fetch?: FetchFn; signal?: AbortSignal; locale?: string} = {}
+  ): Promise<CachedAnswer | undefined> {
+    const {entry} = await this.lookup(project, question, options.locale);
+    if (!entry) {
+      return undefined;
+    }
+
+    const service = new GraphQLService(project, true, undefined, options.fetch);
+    let data = entry.data;
+    const queries = [];
+    for (const record of entry.queries) {
+      if (!record.ok) {
+        queries.push(record);
+        continue;
+      }
+      const startTime = Date.now();
+      const result = (await service.execute(record.query, record.variables, options.signal)) as {
+        data?: unknown;
+        errors?: Array<{message: string}>;
+      };
+      const errors = (result.errors ?? []).map((error) => error.message);
+      queries.push({...record, durationMs: Date.now() - startTime, ok: !!result.data && !errors.length, errors});
+      if (result.data) {
+        data = result.data;
+      }
+    }
+
+    const refreshed: CachedAnswer = {...entry, queries, data, refreshedAt: new Date().toISOString()};
+    await this.store.set(refreshed);
+    return refreshed;
+  }
+
+  // A new CID means the project was redeployed, the answers of the previous deployment are dropped
+  private async trackDeployment(project: GraphQLProjectConfig): Promise<void> {
+    const previous = this.cids.get(project.endpoint);
+    this.cids.set(project.endpoint, project.cid);
+    if (previous && previous !== project.cid) {
+      await this.store.clear(previous);
+    }
+  }
+}
+
+function toStructuredAnswer(entry: CachedAnswer): StructuredAnswer {
+  return {
+    answer: entry.answer,
+    queries: entry.queries,
+    data: entry.data,
+    toolCalls: [],
+    declined: entry.declined,
+    needsUserInput: false,
+    partial: false,
+    cached: true,
+    usage: noUsage(),
+  };
+}
+
+/**
+ * Puts the answer cache in front of an agent. Only questions without prior turns are cached,
+ * with a threadId or history the answer depends on the conversation.
+ * Streamed questions are answered from the cache but not stored, stream events don't carry the query records.
+ * A failing cache store is logged and the agent answers as if the cache missed.
+ * With a quota every question is admitted before the cache is looked up, so cache hits count against the limits
+ * too. The agent must then be created with AgentRunnerOptions.admitted, so it doesn't count questions twice.
+ */
+export function withAnswerCache(
+  agent: GraphQLAgent,
+  project: GraphQLProjectConfig,
+  cache: AnswerCache,
+  logger?: Logger,
+  defaultLocale?: string,
+  quota?: QuotaLimiter
+): GraphQLAgent {
+  const cacheable = (options?: InvokeOptions) => !options?.threadId && !options?.history?.length;
+
+  const admit = async (options?: InvokeOptions) => admitQuestion(quota, options?.tenant ?? DEFAULT_TENANT, logger);
+
+  const lookup = async (question: string, options?: InvokeOptions): Promise<AnswerCacheLookup | undefined> => {
+    try {
+      return await cache.lookup(project, question, options?.locale ?? defaultLocale);
+    } catch (error) {
+      logger?.warn({error: error instanceof Error ? error.message : String(error)}, 'Answer cache lookup failed');
+      return undefined;
+    }
+  };
+
+  const invoke = async (question: string, options?: InvokeOptions): Promise<string> => {
+    if (cacheable(options)) {
+      return (await invokeStructured(question, options)).answer;
+    }
+    const exceeded = await admit(options);
+    return exceeded ? quotaMessage(exceeded) : agent.invoke(question, options);
+  };
+
+  const invokeStructured = async (question: string, options?: InvokeOptions): Promise<StructuredAnswer> => {
+    const exceeded = await admit(options);
+    if (exceeded) {
+      return quotaExceededAnswer(exceeded);
+    }
+    if (!cacheable(options)) {
+      return agent.invokeStructured(question, options);
+    }
+    const cached = await lookup(question, options);
+    if (cached?.entry) {
+      logger?.debug({question, cid: project.cid}, 'Answered from the answer cache');
+      return toStructuredAnswer(cached.entry);
+    }
+
+    const answer = await agent.invokeStructured(question, options);
+    // Partial answers, follow-up questions and quota notices depend on the run, they are not worth repeating
+    if (!answer.partial && !answer.needsUserInput && !answer.quotaExceeded) {
+      try {
+        await cache.save(project, question, answer, cached);
+      } catch (error) {
+        logger?.warn({error: error instanceof Error ? error.message : String(error)}, 'Answer cache save failed');
+      }
+    }
+    return answer;
+  };
+
+  async function* stream(question: string, options?: InvokeOptions): AsyncGenerator<GraphQLAgentEvent> {
+    const exceeded = await admit(options);
+    if (exceeded) {
+      yield {type: 'final', answer: quotaMessage(exceeded), partial: false, usage: noUsage(), quotaExceeded: exceeded};
+      return;
+    }
+    const cached = cacheable(options) ? await lookup(question, options) : undefined;
+    if (cached?.entry) {
+      yield {type: 'final', answer: cached.entry.answer, partial: false, usage: noUsage()};
+      return;
+    }
+    yield* agent.stream(question, options);
+  }
+
+  return {
+    invoke,
+    invokeStructured,
+    stream,
+    // Session questions go through the wrapper as well, so they are admitted against the quota
+    createSession: (threadId) => {
+      const session = agent.createSession(threadId);
+      const options = {threadId: session.threadId};
+      return {
+        threadId: session.threadId,
+        invoke: async (question) => invoke(question, options),
+        invokeStructured: async (question) => invokeStructured(question, options),
+        stream: (question) => stream(question, options),
+      };
+    },
+  };
+}
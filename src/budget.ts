@@ -0,0 +1,156 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {BaseChatModel} from '@langchain/core/language_models/chat_models';
+import {AIMessage, type BaseMessage, HumanMessage, isHumanMessage, isToolMessage} from '@langchain/core/messages';
+import {type Runnable, RunnableLambda, type RunnableConfig} from '@langchain/core/runnables';
+import type {StructuredToolInterface} from '@langchain/core/tools';
+import type {GraphQLAgentConfig} from './types.js';
+import {withSignal} from './utils.js';
+
+export const DEFAULT_MAX_TOOL_CALLS = 4;
+
+const BUDGET_EXHAUSTED_PROMPT = `The tool call budget for this question is exhausted, no more tools can be called.
+Answer the question as well as possible using ONLY the data already returned by the tools above.
+Clearly state that the answer may be incomplete, and do not invent data that was not returned.`;
+
+// Run scoped budget state, passed to the graph through `configurable.budget`
+export type RunBudget = {
+  maxToolCalls: number;
+  deadline?: number;
+  // Aborted at the deadline, cuts off the LLM and GraphQL calls still in flight
+  deadlineSignal?: AbortSignal;
+  // GraphQL requests allowed by the tenant's quota, counted by the query tool
+  maxGraphQLCalls?: number;
+  graphqlCalls: number;
+  exhausted: boolean;
+};
+
+export function createRunBudget(limits: GraphQLAgentConfig['limits'], maxGraphQLCalls?: number): RunBudget {
+  const budget: RunBudget = {
+    maxToolCalls: limits?.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS,
+    graphqlCalls: 0,
+    exhausted: false,
+  };
+  if (limits?.maxDurationMs) {
+    budget.deadline = Date.now() + limits.maxDurationMs;
+    budget.deadlineSignal = AbortSignal.timeout(limits.maxDurationMs);
+  }
+  if (maxGraphQLCalls !== undefined) {
+    budget.maxGraphQLCalls = maxGraphQLCalls;
+  }
+  return budget;
+}
+
+// Counts a GraphQL request of the run, false once the quota is used up, which also ends the tool calls of the run
+export function takeGraphQLCall(budget: RunBudget | undefined): boolean {
+  if (!budget) {
+    return true;
+  }
+  budget.graphqlCalls++;
+  if (budget.maxGraphQLCalls !== undefined && budget.graphqlCalls > budget.maxGraphQLCalls) {
+    budget.exhausted = true;
+    return false;
+  }
+  return true;
+}
+
+// Signal of a step of the run, aborted by the caller or at the deadline of the run
+export function stepSignal(budget: RunBudget | undefined, signal?: AbortSignal): AbortSignal | undefined {
+  return budget?.deadlineSignal ? withSignal(budget.deadlineSignal, signal) : signal;
+}
+
+// Each tool round is an agent step plus a tools step, with one more agent step for the final answer
+export function recursionLimitFor(limits: GraphQLAgentConfig['limits']): number {
+  return 2 * (limits?.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS) + 2;
+}
+
+// Count the tool results of the current question, earlier turns of a conversation don't use up the budget
+function countToolCalls(messages: BaseMessage[]): number {
+  let count = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (!msg || isHumanMessage(msg)) {
+      break;
+    }
+    if (isToolMessage(msg)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Keeps the first `max` tool calls of a response, with the tool_use blocks of providers like Anthropic to match
+function limitToolCalls(message: AIMessage, max: number): AIMessage {
+  if (!message.tool_calls?.length || message.tool_calls.length <= max) {
+    return message;
+  }
+  const toolCalls = message.tool_calls.slice(0, max);
+  const kept = new Set(toolCalls.map(({id}) => id));
+  const content = Array.isArray(message.content)
+    ? message.content.filter((block) => block.type !== 'tool_use' || kept.has(block.id as string | undefined))
+    : message.content;
+  const additionalKwargs = {...message.additional_kwargs};
+  delete additionalKwargs.tool_calls;
+  return new AIMessage({
+    content,
+    tool_calls: toolCalls,
+    additional_kwargs: additionalKwargs,
+    response_metadata: message.response_metadata,
+    ...(message.id ? {id: message.id} : {}),
+    ...(message.usage_metadata ? {usage_metadata: message.usage_metadata} : {}),
+  });
+}
+
+/**
+ * Selects the model for each agent step.
+ * While the budget lasts the model can call tools, a response with more tool calls than are left is cut down to the
+ * budget. Once the tool call budget, deadline or GraphQL call quota is used up, or the deadline passes during a step,
+ * tool calls are switched off and the model is asked for a best-effort answer from the data already fetched.
+ * Tool calls in that answer are dropped, as some providers ignore tool_choice 'none'.
+ */
+export function createBudgetedModel(
+  llm: BaseChatModel,
+  tools: StructuredToolInterface[]
+): (state: {messages: BaseMessage[]}, config: RunnableConfig) => Runnable {
+  if (!llm.bindTools) {
+    throw new Error(`Chat model ${llm.getName()} does not support tool calling.`);
+  }
+  const withTools = llm.bindTools(tools);
+  // The tools stay bound, providers like Anthropic reject a history with tool calls when no tools are given
+  const finalAnswer = RunnableLambda.from((messages: BaseMessage[]) => [
+    ...messages,
+    new HumanMessage(BUDGET_EXHAUSTED_PROMPT),
+  ])
+    .pipe(llm.bindTools(tools, {tool_choice: 'none'}))
+    .pipe((message: AIMessage) => limitToolCalls(message, 0));
+
+  return (state, config) => {
+    const budget = config.configurable?.budget as RunBudget | undefined;
+    if (!budget) {
+      return withTools;
+    }
+
+    const remaining = budget.maxToolCalls - countToolCalls(state.messages);
+    const outOfTime = budget.deadline !== undefined && Date.now() >= budget.deadline;
+    // exhausted is also set by the query tool once the GraphQL call quota is used up
+    if (budget.exhausted || remaining <= 0 || outOfTime) {
+      budget.exhausted = true;
+      return finalAnswer;
+    }
+    return RunnableLambda.from(async (messages: BaseMessage[], stepConfig: RunnableConfig) => {
+      try {
+        const signal = stepSignal(budget, stepConfig.signal);
+        const message = await withTools.invoke(messages, {...stepConfig, ...(signal ? {signal} : {})});
+        return limitToolCalls(message, remaining);
+      } catch (error) {
+        // Cut off by the deadline rather than the caller, the answer is written from the data fetched so far
+        if (!budget.deadlineSignal?.aborted || stepConfig.signal?.aborted) {
+          throw error;
+        }
+        budget.exhausted = true;
+        return finalAnswer.invoke(messages, stepConfig);
+      }
+    });
+  };
+}
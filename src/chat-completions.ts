@@ -0,0 +1,214 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {randomUUID} from 'node:crypto';
+import type {ServerResponse} from 'node:http';
+import {AIMessage, type BaseMessage, HumanMessage} from '@langchain/core/messages';
+import {admitStream, HttpError, quotaError, sendEvent, sendJSON, startEventStream} from './http.js';
+import {isQuotaRejection} from './quota.js';
+import type {GraphQLAgent, GraphQLProjectConfig, LLMUsage} from './types.js';
+
+type ContentPart = {type: string; text?: string};
+
+export type ChatCompletionMessage = {
+  role: string;
+  content?: string | ContentPart[] | null;
+};
+
+export type ChatCompletionRequest = {
+  // Model id of a registered project
+  model: string;
+  messages: ChatCompletionMessage[];
+  stream: boolean;
+  // stream_options.include_usage, sends a last chunk with the token usage
+  includeUsage: boolean;
+};
+
+export type OpenAIModel = {id: string; object: 'model'; created: number; owned_by: string};
+
+export type OpenAIError = {error: {message: string; type: string; code: string | null}};
+
+export function parseChatCompletionRequest(body: Record<string, unknown>): ChatCompletionRequest {
+  const {messages, model, stream} = body;
+  if (typeof model !== 'string' || !model) {
+    throw new HttpError(400, '"model" is required');
+  }
+  if (!Array.isArray(messages) || messages.some((message) => !message || typeof message !== 'object')) {
+    throw new HttpError(400, '"messages" must be an array of messages');
+  }
+  const streamOptions = body.stream_options as {include_usage?: unknown} | undefined;
+  return {
+    model,
+    messages: messages as ChatCompletionMessage[],
+    stream: stream === true,
+    includeUsage: streamOptions?.include_usage === true,
+  };
+}
+
+function contentText(content: ChatCompletionMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content ?? [])
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text ?? '')
+    .join('');
+}
+
+/**
+ * Maps an OpenAI messages array to the question and the prior turns of the conversation.
+ * System messages are dropped, the agent's own system prompt describes the project and its rules.
+ */
+export function toAgentInput(messages: ChatCompletionMessage[]): {question: string; history: BaseMessage[]} {
+  const last = messages.at(-1);
+  if (last?.role !== 'user' || !contentText(last.content).trim()) {
+    throw new HttpError(400, 'The last message must be a user message with text content');
+  }
+
+  const history: BaseMessage[] = [];
+  for (const message of messages.slice(0, -1)) {
+    const text = contentText(message.content);
+    if (message.role === 'user') {
+      history.push(new HumanMessage(text));
+    } else if (message.role === 'assistant' && text) {
+      history.push(new AIMessage(text));
+    }
+  }
+  return {question: contentText(last.content), history};
+}
+
+// Model ids are the domain name as a slug, e.g. "subquery-network", with a suffix for duplicates
+export function toModelId(config: GraphQLProjectConfig, taken: Set<string>): string {
+  const base =
+    config.domainName
+      ?.toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 64) || 'graphql-project';
+
+  let id = base;
+  for (let i = 2; taken.has(id); i++) {
+    id = `${base}-${i}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+export function toOpenAIModel(id: string, config: GraphQLProjectConfig): OpenAIModel {
+  const created = Date.parse(config.lastAnalyzedAt ?? config.updatedAt);
+  return {
+    id,
+    object: 'model',
+    created: Number.isNaN(created) ? 0 : Math.floor(created / 1000),
+    owned_by: 'subquery',
+  };
+}
+
+// OpenAI clients read errors from {error: {message, type, code}}
+export function toOpenAIError(status: number, message: string, code?: string): OpenAIError {
+  return {
+    error: {
+      message,
+      type: status >= 500 ? 'server_error' : 'invalid_request_error',
+      code: code ?? null,
+    },
+  };
+}
+
+function toOpenAIUsage(usage: LLMUsage) {
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+  };
+}
+
+// Partial answers hit the tool call budget or time limit, which clients know as running out of length
+function finishReason(partial: boolean): 'stop' | 'length' {
+  return partial ? 'length' : 'stop';
+}
+
+/**
+ * Runs a chat completion request through the agent and writes the response in the OpenAI format,
+ * a `chat.completion` object or, when streaming, `chat.completion.chunk` events ending with `[DONE]`.
+ */
+export async function respondWithChatCompletion(
+  res: ServerResponse,
+  agent: GraphQLAgent,
+  request: ChatCompletionRequest,
+  signal: AbortSignal,
+  tenant?: string
+): Promise<void> {
+  const {history, question} = toAgentInput(request.messages);
+  const options = {history, signal, ...(tenant ? {tenant} : {})};
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  if (!request.stream) {
+    const answer = await agent.invokeStructured(question, options);
+    if (isQuotaRejection(answer.quotaExceeded)) {
+      throw quotaError(res, answer.quotaExceeded);
+    }
+    sendJSON(res, 200, {
+      id,
+      object: 'chat.completion',
+      created,
+      model: request.model,
+      choices: [
+        {index: 0, message: {role: 'assistant', content: answer.answer}, finish_reason: finishReason(answer.partial)},
+      ],
+      usage: toOpenAIUsage(answer.usage),
+    });
+    return;
+  }
+
+  const chunk = (delta: Record<string, string>, finish: string | null = null) => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model: request.model,
+    choices: [{index: 0, delta, finish_reason: finish}],
+  });
+
+  const events = await admitStream(res, agent.stream(question, options));
+  startEventStream(res);
+  sendEvent(res, undefined, chunk({role: 'assistant', content: ''}));
+  // Tokens of the current step, held back until the step ends without tool calls, so a preamble like
+  // "Let me check…" before a tool call never reaches the client. Answers not generated as tokens are sent whole
+  let tokens: string[] = [];
+  let streamed = false;
+  const send = (contents: string[]) => {
+    for (const content of contents) {
+      sendEvent(res, undefined, chunk({content}));
+    }
+    streamed ||= contents.length > 0;
+  };
+  try {
+    for await (const event of events) {
+      if (event.type === 'token') {
+        tokens.push(event.content);
+      } else if (event.type === 'step_end') {
+        if (!event.toolCalls) {
+          send(tokens);
+        }
+        tokens = [];
+      } else if (event.type === 'tool_start') {
+        tokens = [];
+      } else if (event.type === 'final') {
+        send(tokens.length || streamed ? tokens : [event.answer]);
+        sendEvent(res, undefined, chunk({}, finishReason(event.partial)));
+        if (request.includeUsage) {
+          sendEvent(res, undefined, {...chunk({}), choices: [], usage: toOpenAIUsage(event.usage)});
+        }
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      res.end();
+      return;
+    }
+    sendEvent(res, undefined, toOpenAIError(500, error instanceof Error ? error.message : String(error)));
+  }
+  sendEvent(res, undefined, '[DONE]');
+  res.end();
+}
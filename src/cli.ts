@@ -0,0 +1,218 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {createInterface} from 'node:readline/promises';
+import {parseArgs} from 'node:util';
+import {destination, pino} from 'pino';
+import {createGraphQLAgent, initializeProjectConfig} from './graphql-agent.js';
+import {FilePersistentService} from './persistence.js';
+import {createGraphQLSchemaInfoTool} from './tools/graphql-schema-info.tool.js';
+import type {
+  FetchFn,
+  GraphQLAgent,
+  GraphQLAgentConfig,
+  GraphQLAgentSession,
+  GraphQLProjectConfig,
+  OpenAILLMConfig,
+} from './types.js';
+
+export type CliIO = {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  // Replace the model and fetch built from flags and environment, for tests and embedding
+  llm?: GraphQLAgentConfig['llm'];
+  fetch?: FetchFn;
+};
+
+export type CliArgs = {
+  command: string | undefined;
+  args: string[];
+  llm: OpenAILLMConfig;
+  verbose: number;
+  authorization?: string;
+  projectsFile: string;
+  // Local project directory to read the manifest and schema from instead of IPFS
+  projectDir?: string;
+  help: boolean;
+};
+
+export const DEFAULT_PROJECTS_FILE = '.sq-graphql-agent/projects.json';
+
+const USAGE = `Usage: sq-graphql-agent <command> [options]
+
+Commands:
+  init <endpoint>               Analyze the project behind an endpoint and save its config
+  ask <endpoint> "<question>"   Answer a single question
+  repl <endpoint>               Multi-turn chat, /new starts a new conversation, /exit quits
+  schema <endpoint>             Print the schema info given to the agent
+
+Options:
+  -m, --model <model>           LLM model (default: $LLM_MODEL or gpt-4o-mini)
+      --base-url <url>          OpenAI compatible API base URL (default: $OPENAI_API_BASE)
+  -v, --verbose <level>         0 = compact, 1 = with reasons, 2 = debug logs (default: 0)
+      --authorization <value>   Authorization header sent to the endpoint
+      --projects-file <path>    Where project configs are saved (default: $PROJECTS_FILE or ${DEFAULT_PROJECTS_FILE})
+      --project-dir <path>      Read project.yaml or subgraph.yaml and the schema from a local directory, not IPFS
+  -h, --help                    Show this help
+
+The OpenAI API key is read from $OPENAI_API_KEY.`;
+
+class CliError extends Error {}
+
+const OPTIONS = {
+  model: {type: 'string', short: 'm'},
+  'base-url': {type: 'string'},
+  verbose: {type: 'string', short: 'v'},
+  authorization: {type: 'string'},
+  'projects-file': {type: 'string'},
+  'project-dir': {type: 'string'},
+  help: {type: 'boolean', short: 'h'},
+} as const;
+
+// Unknown options and missing option values are usage errors rather than crashes
+function parseOptions(argv: string[]) {
+  try {
+    return parseArgs({args: argv, allowPositionals: true, options: OPTIONS});
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliArgs {
+  const {positionals, values} = parseOptions(argv);
+
+  const verbose = Number(values.verbose ?? 0);
+  if (![0, 1, 2].includes(verbose)) {
+    throw new CliError(`Invalid verbose level "${values.verbose}", expected 0, 1 or 2`);
+  }
+  const baseUrl = values['base-url'] ?? env.OPENAI_API_BASE;
+  const [command, ...args] = positionals;
+  return {
+    command,
+    args,
+    llm: {model: values.model ?? env.LLM_MODEL ?? 'gpt-4o-mini', ...(baseUrl ? {baseUrl} : {})},
+    verbose,
+    ...(values.authorization ? {authorization: values.authorization} : {}),
+    projectsFile: values['projects-file'] ?? env.PROJECTS_FILE ?? DEFAULT_PROJECTS_FILE,
+    ...(values['project-dir'] ? {projectDir: values['project-dir']} : {}),
+    help: values.help ?? false,
+  };
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new CliError(`Missing ${name}`);
+  }
+  return value;
+}
+
+// Prints progress to stderr and returns the final answer, so stdout only carries answers
+async function streamAnswer(
+  agent: GraphQLAgent | GraphQLAgentSession,
+  question: string,
+  io: CliIO,
+  verbose: number
+): Promise<string> {
+  let answer = '';
+  for await (const event of agent.stream(question)) {
+    if (event.type === 'tool_start') {
+      io.stderr.write(`→ ${event.tool}${verbose > 0 && event.query ? `: ${event.query}` : ''}\n`);
+    } else if (event.type === 'validation_failed') {
+      io.stderr.write(`✗ validation failed: ${event.errors.join('; ')}\n`);
+    } else if (event.type === 'final') {
+      answer = event.partial ? `${event.answer}\n(partial answer, the tool call budget was exhausted)` : event.answer;
+    }
+  }
+  return answer;
+}
+
+async function repl(agent: GraphQLAgent, io: CliIO, verbose: number, config: GraphQLProjectConfig): Promise<void> {
+  const rl = createInterface({input: io.stdin, output: io.stdout, terminal: false});
+  let session = agent.createSession();
+  io.stdout.write(`${config.domainName}: ${config.domainCapabilities.join(', ')}\n> `);
+  try {
+    for await (const line of rl) {
+      const question = line.trim();
+      if (question === '/exit') {
+        break;
+      }
+      if (question === '/new') {
+        session = agent.createSession();
+        io.stdout.write('Started a new conversation\n');
+      } else if (question) {
+        io.stdout.write(`${await streamAnswer(session, question, io, verbose)}\n`);
+      }
+      io.stdout.write('> ');
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Runs the `sq-graphql-agent` command line and returns the process exit code.
+ * Project configs are saved to the projects file, so only `init` and CID changes run the LLM project analysis.
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const cli = parseCliArgs(argv);
+    if (cli.help || !cli.command) {
+      (cli.help ? io.stdout : io.stderr).write(`${USAGE}\n`);
+      return cli.help ? 0 : 1;
+    }
+
+    const logger = pino({level: cli.verbose > 1 ? 'debug' : 'warn'}, destination(2));
+    const llm = io.llm ?? cli.llm;
+    const loadProject = async (endpoint: string) =>
+      initializeProjectConfig(
+        endpoint,
+        new FilePersistentService(cli.projectsFile),
+        llm,
+        cli.authorization ? {Authorization: cli.authorization} : undefined,
+        logger,
+        {
+          ...(io.fetch ? {fetch: io.fetch} : {}),
+          ...(cli.projectDir ? {source: {directory: cli.projectDir}} : {}),
+        }
+      );
+    const createAgent = (config: GraphQLProjectConfig) =>
+      createGraphQLAgent(config, {llm, verbose: cli.verbose, logger, ...(io.fetch ? {fetch: io.fetch} : {})});
+
+    switch (cli.command) {
+      case 'init': {
+        const config = await loadProject(requireArg(cli.args[0], 'endpoint'));
+        io.stdout.write(
+          `${config.domainName} (${config.cid}, ${config.nodeType})\n` +
+            `${config.domainCapabilities.map((capability) => `- ${capability}`).join('\n')}\n` +
+            `Saved to ${cli.projectsFile}\n`
+        );
+        return 0;
+      }
+      case 'ask': {
+        const endpoint = requireArg(cli.args[0], 'endpoint');
+        const question = requireArg(cli.args.slice(1).join(' '), 'question');
+        const agent = createAgent(await loadProject(endpoint));
+        io.stdout.write(`${await streamAnswer(agent, question, io, cli.verbose)}\n`);
+        return 0;
+      }
+      case 'repl': {
+        const config = await loadProject(requireArg(cli.args[0], 'endpoint'));
+        await repl(createAgent(config), io, cli.verbose, config);
+        return 0;
+      }
+      case 'schema': {
+        const config = await loadProject(requireArg(cli.args[0], 'endpoint'));
+        const info = (await createGraphQLSchemaInfoTool(config, logger).invoke({})) as string;
+        io.stdout.write(`${info}\n`);
+        return 0;
+      }
+      default:
+        throw new CliError(`Unknown command "${cli.command}"`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr.write(error instanceof CliError ? `${message}\n\n${USAGE}\n` : `Error: ${message}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,119 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {
+  type BaseMessage,
+  isAIMessage,
+  isSystemMessage,
+  isToolMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+  type StoredMessage,
+  ToolMessage,
+  trimMessages,
+} from '@langchain/core/messages';
+import type {ConversationStore} from './types.js';
+
+export const DEFAULT_MAX_HISTORY_TOKENS = 4000;
+// Tool results kept in the history are cut to this many characters once the history is over its budget
+const TOOL_OUTPUT_PREVIEW_CHARS = 500;
+
+// Simple in-memory conversation store, used when no store is configured
+export class InMemoryConversationStore implements ConversationStore {
+  private threads = new Map<string, StoredMessage[]>();
+
+  async save(threadId: string, messages: StoredMessage[]): Promise<void> {
+    this.threads.set(threadId, messages);
+    return Promise.resolve();
+  }
+
+  async load(threadId: string): Promise<StoredMessage[] | undefined> {
+    return Promise.resolve(this.threads.get(threadId));
+  }
+
+  async delete(threadId: string): Promise<void> {
+    this.threads.delete(threadId);
+    return Promise.resolve();
+  }
+}
+
+// Rough token estimate (~4 chars per token), avoids downloading tokenizer files at runtime
+export function approximateTokenCount(messages: BaseMessage[]): number {
+  let chars = 0;
+  for (const msg of messages) {
+    chars += typeof msg.content === 'string' ? msg.content.length : JSON.stringify(msg.content).length;
+    if (isAIMessage(msg) && msg.tool_calls?.length) {
+      chars += JSON.stringify(msg.tool_calls).length;
+    }
+  }
+  return Math.ceil(chars / 4);
+}
+
+/**
+ * Loads the previous turns of a thread and trims them to the token budget.
+ * Trimming always starts on a human message so tool calls are never separated from their results.
+ */
+export async function loadHistory(
+  store: ConversationStore,
+  threadId: string,
+  maxTokens = DEFAULT_MAX_HISTORY_TOKENS
+): Promise<BaseMessage[]> {
+  const stored = await store.load(threadId);
+  if (!stored?.length) {
+    return [];
+  }
+
+  return trimHistory(mapStoredMessagesToChatMessages(stored), maxTokens);
+}
+
+// Cuts tool results to a preview, the answer of each turn already holds what the model took from them
+function shrinkToolOutputs(messages: BaseMessage[]): BaseMessage[] {
+  return messages.map((msg) => {
+    if (!isToolMessage(msg)) {
+      return msg;
+    }
+    const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+    const preview =
+      content.length > TOOL_OUTPUT_PREVIEW_CHARS
+        ? `${content.slice(0, TOOL_OUTPUT_PREVIEW_CHARS)}... [${content.length - TOOL_OUTPUT_PREVIEW_CHARS} more characters]`
+        : content;
+    // The artifact holds the full query data, it is not needed for the history
+    return new ToolMessage({content: preview, tool_call_id: msg.tool_call_id, ...(msg.name ? {name: msg.name} : {})});
+  });
+}
+
+// Keeps the question and final answer of every turn, without the tool calls in between
+function dropToolCalls(messages: BaseMessage[]): BaseMessage[] {
+  return messages.filter((msg) => !isToolMessage(msg) && !(isAIMessage(msg) && msg.tool_calls?.length));
+}
+
+/**
+ * Fits the history into the token budget. Tool results are shrunk first, then the tool calls are dropped so only
+ * the questions and answers are left, and only then are the oldest whole turns dropped.
+ */
+export async function trimHistory(
+  messages: BaseMessage[],
+  maxTokens = DEFAULT_MAX_HISTORY_TOKENS
+): Promise<BaseMessage[]> {
+  let history = messages;
+  for (const compact of [shrinkToolOutputs, dropToolCalls]) {
+    if (approximateTokenCount(history) <= maxTokens) {
+      return history;
+    }
+    history = compact(history);
+  }
+  return trimMessages(history, {
+    maxTokens,
+    strategy: 'last',
+    startOn: 'human',
+    tokenCounter: approximateTokenCount,
+  });
+}
+
+// Appends the messages of one turn to the stored thread. Threads are stored whole and only trimmed when loaded,
+// the system prompt is rebuilt on every call so it is not stored
+export async function appendHistory(store: ConversationStore, threadId: string, turn: BaseMessage[]): Promise<void> {
+  const stored = (await store.load(threadId)) ?? [];
+  const messages = turn.filter((msg) => !isSystemMessage(msg));
+  await store.save(threadId, [...stored, ...mapChatMessagesToStoredMessages(messages)]);
+}
@@ -0,0 +1,105 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {Logger} from 'pino';
+import {createAgentRunner} from './agent.js';
+import {withAnswerCache} from './answer-cache.js';
+import {GraphQLService} from './graphql.service.js';
+import {withoutCredentials} from './persistence.js';
+import {ProjectManager} from './project-manager.js';
+import {buildSystemPrompt} from './prompts.js';
+import {createGraphQLTools} from './tools/index.js';
+import {projectAttributes, withSpan} from './tracing.js';
+import type {
+  GraphQLAgent,
+  GraphQLAgentConfig,
+  GraphQLProjectConfig,
+  InitializeProjectOptions,
+  PersistentService,
+} from './types.js';
+
+export function createGraphQLAgent(
+  project: GraphQLProjectConfig,
+  agentConfig: GraphQLAgentConfig,
+  logger?: Logger
+): GraphQLAgent {
+  const service = new GraphQLService(
+    project,
+    agentConfig.allowLocalhost ?? true,
+    logger,
+    agentConfig.fetch,
+    agentConfig.tracer,
+    agentConfig.responseCache
+  );
+  const agent = createAgentRunner(agentConfig, {
+    tools: createGraphQLTools(service, project, logger, undefined, agentConfig.tracer, agentConfig.sanitization),
+    systemPrompt: (maxToolCalls, locale) => buildSystemPrompt(project, agentConfig.verbose, maxToolCalls, locale),
+    declineMessage: project.declineMessage,
+    ...(project.declineMessages ? {declineMessages: project.declineMessages} : {}),
+    spanAttributes: {...projectAttributes(project), 'graphql_agent.domain': project.domainName},
+    scope: {domainName: project.domainName, capabilities: project.domainCapabilities},
+    admitted: !!agentConfig.answerCache,
+  });
+  return agentConfig.answerCache
+    ? withAnswerCache(agent, project, agentConfig.answerCache, logger, agentConfig.locale, agentConfig.quota)
+    : agent;
+}
+
+export async function initializeProjectConfig(
+  endpoint: string,
+  persistentService: PersistentService,
+  llmConfig: GraphQLAgentConfig['llm'],
+  customHeaders?: Record<string, string>,
+  logger?: Logger,
+  options: InitializeProjectOptions = {}
+): Promise<GraphQLProjectConfig> {
+  const {signal, tracer} = options;
+  return withSpan(tracer, 'graphql_agent.initialize', {'graphql_agent.endpoint': endpoint}, async (span) => {
+    const authorization = customHeaders?.Authorization;
+    const graphqlService = new GraphQLService(
+      {endpoint, authorization} as GraphQLProjectConfig,
+      options.allowLocalhost ?? true,
+      undefined,
+      options.fetch,
+      tracer
+    );
+    const pm = new ProjectManager(graphqlService, llmConfig, logger, options);
+    let cid = options.introspectionOnly ? '' : await graphqlService.fetchCidFromEndpoint(endpoint, undefined, signal);
+    // Without a CID there is no manifest on IPFS, the schema comes from the local source or from introspection
+    const introspection = !cid && !options.source;
+    if (!cid) {
+      cid = introspection ? await pm.introspectionDeploymentId(signal) : await pm.localDeploymentId(signal);
+    }
+
+    let config = await persistentService.load(endpoint, cid);
+    let previous: GraphQLProjectConfig | undefined;
+    if (config) {
+      // The saved config may have been registered with another credential, the caller's own is used
+      config = {...config, authorization};
+    } else {
+      // A config of the endpoint under another CID is from before the project was redeployed
+      previous = await persistentService.load(endpoint);
+      // Create minimal config without endpoint - endpoint will be read from headers
+      config = {
+        cid,
+        endpoint,
+        authorization,
+        ...(introspection ? {schemaSource: 'introspection'} : {}),
+      } as GraphQLProjectConfig;
+    }
+
+    const enriched = {
+      ...(await pm.enrichGraphQLConfig(
+        config,
+        options.forceAnalysis ?? false,
+        logger,
+        signal,
+        previous?.schemaContent ? previous : undefined
+      )),
+      updatedAt: new Date().toISOString(),
+    };
+    await persistentService.save(endpoint, withoutCredentials(enriched));
+    span?.setAttributes(projectAttributes(enriched));
+    return enriched;
+  });
+}
@@ -1,31 +1,55 @@
 // Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import type {Tracer} from '@opentelemetry/api';
 import {GraphQLSchema, buildClientSchema, parse, validate, type IntrospectionQuery} from 'graphql';
 import {type Logger} from 'pino';
-import type {GraphQLProjectConfig} from './types.js';
+import type {GraphQLResponseCache} from './response-cache.js';
+import {projectAttributes, withSpan} from './tracing.js';
+import {type FetchFn, GraphqlProvider, type GraphQLProjectConfig} from './types.js';
+import {withSignal} from './utils.js';
 
 // // Create logger for GraphQL service operations
 // const logger = getLogger('graphql-service');
 
+const MAX_REDIRECTS = 3;
+
+// Redirects are followed by hand, so every target is checked by validateRedirect before it is requested
 async function fetchJSON(
   endpoint: string,
   body: Record<string, unknown>,
   headers: Record<string, string>,
-  timeoutMs = 30000
+  timeoutMs = 30000,
+  signal?: AbortSignal,
+  fetchFn: FetchFn = fetch,
+  validateRedirect?: (url: string) => void
 ) {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...headers,
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
+    let url = endpoint;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      response = await fetchFn(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(body),
+        signal: withSignal(controller.signal, signal),
+        redirect: 'manual',
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (max: ${MAX_REDIRECTS})`);
+      }
+      url = new URL(location, url).toString();
+      validateRedirect?.(url);
+    }
 
     const text = await response.text();
     let data: unknown;
@@ -58,9 +82,19 @@ async function secureFetch(
     maxRedirects?: number;
     maxContentLength?: number;
     validateRedirect?: (url: string) => void;
+    signal?: AbortSignal | undefined;
+    fetch?: FetchFn | undefined;
   }
 ): Promise<unknown> {
-  const {headers, maxContentLength = 10 * 1024 * 1024, maxRedirects = 3, timeoutMs = 10000, validateRedirect} = options;
+  const {
+    fetch: fetchFn = fetch,
+    headers,
+    maxContentLength = 10 * 1024 * 1024,
+    maxRedirects = 3,
+    signal,
+    timeoutMs = 10000,
+    validateRedirect,
+  } = options;
 
   let redirectCount = 0;
   let currentUrl = endpoint;
@@ -70,11 +104,12 @@ async function secureFetch(
 
   try {
     while (redirectCount <= maxRedirects) {
-      const response = await fetch(currentUrl, {
+      const response = await fetchFn(currentUrl, {
         method: 'POST',
         headers,
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: withSignal(controller.signal, signal),
+        redirect: 'manual',
       });
 
       // Handle redirects manually if needed
@@ -162,7 +197,10 @@ export class GraphQLService {
   constructor(
     private readonly config: GraphQLProjectConfig,
     private readonly allowLocalhost = true,
-    private readonly logger?: Logger
+    private readonly logger?: Logger,
+    private readonly fetchFn?: FetchFn,
+    private readonly tracer?: Tracer,
+    private readonly responseCache?: GraphQLResponseCache
   ) {}
 
   private buildHeaders(_headers?: Record<string, string>): Record<string, string> {
@@ -180,7 +218,7 @@ export class GraphQLService {
     return `${this.config.endpoint}:introspection`;
   }
 
-  async fetchSchema(): Promise<GraphQLSchema> {
+  async fetchSchema(signal?: AbortSignal): Promise<GraphQLSchema> {
     const key = this.cacheKey();
     const cached = this.schemaCache.get(key);
     if (cached) {
@@ -190,7 +228,7 @@ export class GraphQLService {
     let schema: GraphQLSchema;
     let introspectionData = this.config.introspectionSchema;
     if (!introspectionData) {
-      introspectionData = await this.fetchIntrospectionSchema();
+      introspectionData = await this.fetchIntrospectionSchema(signal);
     }
 
     schema = buildClientSchema(introspectionData);
@@ -200,13 +238,23 @@ export class GraphQLService {
   }
 
   // New method to fetch and return introspection schema for caching
-  async fetchIntrospectionSchema(): Promise<IntrospectionQuery> {
+  async fetchIntrospectionSchema(signal?: AbortSignal): Promise<IntrospectionQuery> {
     if (this.config.introspectionSchema) {
       return this.config.introspectionSchema;
     }
 
     try {
-      const data = (await fetchJSON(this.config.endpoint, {query: INTROSPECTION_QUERY}, this.buildHeaders())) as {
+      const data = (await withSpan(this.tracer, 'graphql.introspection', projectAttributes(this.config), async () =>
+        fetchJSON(
+          this.config.endpoint,
+          {query: INTROSPECTION_QUERY},
+          this.buildHeaders(),
+          undefined,
+          signal,
+          this.fetchFn,
+          (url) => this.validateEndpointSecurity(url)
+        )
+      )) as {
         data: IntrospectionQuery;
       };
 
@@ -224,11 +272,69 @@ export class GraphQLService {
     }
   }
 
-  async execute(query: string, variables?: Record<string, unknown>): Promise<any> {
-    return fetchJSON(this.config.endpoint, variables ? {query, variables} : {query}, this.buildHeaders());
+  async execute(query: string, variables?: Record<string, unknown>, signal?: AbortSignal): Promise<any> {
+    return withSpan(this.tracer, 'graphql.execute', projectAttributes(this.config), async (span) => {
+      const cache = this.responseCache;
+      const key = cache?.key(this.config, query, variables);
+      if (!cache || !key) {
+        return this.post(query, variables, signal);
+      }
+
+      // Read before the query, so a response is never stored with a newer height than its data
+      const height = cache.blockAware ? await this.fetchIndexedHeight(signal) : undefined;
+      const cached = cache.get(key, height);
+      span?.setAttribute('graphql_agent.cache_hit', cached !== undefined);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const response = (await this.post(query, variables, signal)) as {data?: unknown; errors?: unknown[]};
+      if (response?.data && !response.errors?.length) {
+        cache.set(key, this.config, response, height);
+      }
+      return response;
+    });
+  }
+
+  private async post(query: string, variables?: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    return fetchJSON(
+      this.config.endpoint,
+      variables ? {query, variables} : {query},
+      this.buildHeaders(),
+      undefined,
+      signal,
+      this.fetchFn,
+      (url) => this.validateEndpointSecurity(url)
+    );
+  }
+
+  /**
+   * Reads the last block processed by the indexer, from _metadata on SubQuery and _meta on The Graph.
+   * Returns undefined for other providers or when the endpoint doesn't expose it.
+   */
+  async fetchIndexedHeight(signal?: AbortSignal): Promise<number | undefined> {
+    const {nodeType} = this.config;
+    if (nodeType !== GraphqlProvider.SUBQL && nodeType !== GraphqlProvider.THE_GRAPH) {
+      return undefined;
+    }
+    try {
+      const response = (await this.post(
+        nodeType === GraphqlProvider.SUBQL ? '{ _metadata { lastProcessedHeight } }' : '{ _meta { block { number } } }',
+        undefined,
+        signal
+      )) as {data?: {_metadata?: {lastProcessedHeight?: unknown}; _meta?: {block?: {number?: unknown}}}};
+      const height = Number(response?.data?._metadata?.lastProcessedHeight ?? response?.data?._meta?.block?.number);
+      return Number.isFinite(height) ? height : undefined;
+    } catch (error) {
+      this.logger?.debug(
+        {endpoint: this.config.endpoint, error: error instanceof Error ? error.message : String(error)},
+        'Failed to read the indexed block height'
+      );
+      return undefined;
+    }
   }
 
-  async validate(query: string): Promise<string[]> {
+  async validate(query: string, signal?: AbortSignal): Promise<string[]> {
     const issues: string[] = [];
     try {
       parse(query);
@@ -238,7 +344,7 @@ export class GraphQLService {
     }
 
     try {
-      const schema = await this.fetchSchema();
+      const schema = await this.fetchSchema(signal);
       const validationErrors = validate(schema, parse(query));
       for (const err of validationErrors) {
         issues.push(err.message);
@@ -253,12 +359,22 @@ export class GraphQLService {
   /**
    * Fetches CID from GraphQL endpoint with caching
    * @param endpoint - GraphQL endpoint URL
+   * @param signal - aborts the CID lookup
    * @returns CID string or empty string if not found
    */
   async fetchCidFromEndpoint(
     endpoint: string,
-    cacheTtl = 604800 // 7 days
+    cacheTtl = 604800, // 7 days
+    signal?: AbortSignal
   ): Promise<string> {
+    return withSpan(this.tracer, 'graphql.cid_lookup', {'graphql_agent.endpoint': endpoint}, async (span) => {
+      const cid = await this.lookupCid(endpoint, signal);
+      span?.setAttribute('graphql_agent.cid', cid);
+      return cid;
+    });
+  }
+
+  private async lookupCid(endpoint: string, signal?: AbortSignal): Promise<string> {
     try {
       // 1. URL security validation
       this.validateEndpointSecurity(endpoint);
@@ -291,6 +407,8 @@ export class GraphQLService {
             maxRedirects: 3,
             maxContentLength: 10 * 1024 * 1024,
             validateRedirect: (url) => this.validateEndpointSecurity(url),
+            signal,
+            fetch: this.fetchFn,
           }
         );
 
@@ -324,6 +442,8 @@ export class GraphQLService {
               maxRedirects: 3,
               maxContentLength: 10 * 1024 * 1024,
               validateRedirect: (url) => this.validateEndpointSecurity(url),
+              signal,
+              fetch: this.fetchFn,
             }
           );
 
@@ -339,6 +459,9 @@ export class GraphQLService {
         }
       }
 
+      // Don't mistake a cancelled lookup for an endpoint without a CID
+      signal?.throwIfAborted();
+
       // 7. If both methods fail, return empty string
       if (!cid) {
         this.logger?.warn(
@@ -358,12 +481,22 @@ export class GraphQLService {
         this.logger?.error(`Security validation failed for ${endpoint}: ${error.message}`);
         throw error;
       }
+      if (signal?.aborted) {
+        throw error;
+      }
 
       this.logger?.warn(`Failed to fetch CID from ${endpoint}: ${error}`);
       return '';
     }
   }
 
+  /**
+   * Throws when the endpoint of the config is not allowed, local and private hosts are only allowed with allowLocalhost
+   */
+  validateEndpoint(): void {
+    this.validateEndpointSecurity(this.config.endpoint);
+  }
+
   /**
    * Validates endpoint URL for security
    */
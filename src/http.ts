@@ -0,0 +1,117 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {IncomingMessage, ServerResponse} from 'node:http';
+import {isQuotaRejection, quotaMessage} from './quota.js';
+import type {GraphQLAgentEvent, QuotaExceeded} from './types.js';
+
+export type RequestHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+// Error carrying the response status, anything else thrown by a route is a 500
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code?: string
+  ) {
+    super(message);
+  }
+}
+
+// 429 for a question the quota turned away, with Retry-After set on the response
+export function quotaError(res: ServerResponse, exceeded: QuotaExceeded): HttpError {
+  if (exceeded.retryAfterMs !== undefined) {
+    res.setHeader('retry-after', Math.ceil(exceeded.retryAfterMs / 1000));
+  }
+  const code = exceeded.limit === 'tokens_per_day' ? 'insufficient_quota' : 'rate_limit_exceeded';
+  return new HttpError(429, quotaMessage(exceeded), code);
+}
+
+export async function readJSON(req: IncomingMessage, maxBodyBytes: number): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBodyBytes) {
+      throw new HttpError(413, `Request body too large (max: ${maxBodyBytes} bytes)`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+export function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" is required`);
+  }
+  return value;
+}
+
+export function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new HttpError(400, `"${field}" must be a string`);
+  }
+  return value;
+}
+
+export function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {'content-type': 'application/json'});
+  res.end(JSON.stringify(body));
+}
+
+export function startEventStream(res: ServerResponse): void {
+  res.writeHead(200, {'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive'});
+}
+
+// Writes a Server-Sent Event, events without a name are delivered as 'message'
+export function sendEvent(res: ServerResponse, event: string | undefined, data: unknown): void {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  res.write(`${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`);
+}
+
+/**
+ * Waits for the first event of an agent stream before the response starts, so a question the quota turns away
+ * gets a 429 rather than an event stream. Returns the stream with its first event put back in front.
+ */
+export async function admitStream(
+  res: ServerResponse,
+  events: AsyncIterable<GraphQLAgentEvent>
+): Promise<AsyncIterable<GraphQLAgentEvent>> {
+  const iterator = events[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (!first.done && first.value.type === 'final' && isQuotaRejection(first.value.quotaExceeded)) {
+    throw quotaError(res, first.value.quotaExceeded);
+  }
+  return (async function* () {
+    if (first.done) {
+      return;
+    }
+    yield first.value;
+    yield* {[Symbol.asyncIterator]: () => iterator};
+  })();
+}
+
+// Cancels the agent run when the client disconnects before the response is complete
+export function abortOnClose(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort(new Error('Client disconnected'));
+    }
+  });
+  return controller.signal;
+}
@@ -0,0 +1,142 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionQuery,
+  IntrospectionType,
+  IntrospectionTypeRef,
+} from 'graphql';
+import {GraphqlProvider} from './types.js';
+
+const BUILT_IN_SCALARS = new Set(['String', 'Int', 'Float', 'Boolean', 'ID']);
+
+// Pagination, aggregation, ordering and mutation types generated by PostGraphile, Hasura and The Graph
+const BOILERPLATE_TYPES = [
+  /^_/, // system types, e.g. _Meta_ and _Metadata
+  /(Connection|Edge|PageInfo|Aggregates|OrderBy|GroupBy|Payload)$/,
+  /_(aggregate|fields|mutation_response|select_column|constraint|update_column|orderBy)$/,
+  /_select_column_\w+$/,
+];
+const BOILERPLATE_NAMES = new Set(['Node', 'Cursor', 'order_by', 'cursor_ordering', 'OrderDirection']);
+
+// Root fields that don't return data of the API, e.g. the Relay node lookup
+const SKIPPED_ROOT_FIELDS = new Set(['node', 'nodeId', 'query']);
+
+function namedType(ref: IntrospectionTypeRef): string {
+  return ref.kind === 'NON_NULL' || ref.kind === 'LIST' ? namedType(ref.ofType) : ref.name;
+}
+
+function isBoilerplate(type: IntrospectionType): boolean {
+  return (
+    type.kind === 'INPUT_OBJECT' ||
+    type.name.startsWith('__') ||
+    BUILT_IN_SCALARS.has(type.name) ||
+    BOILERPLATE_NAMES.has(type.name) ||
+    BOILERPLATE_TYPES.some((pattern) => pattern.test(type.name))
+  );
+}
+
+// Item type of a connection, from `nodes: [Item]` or `edges: [{node: Item}]`
+function connectionItem(type: IntrospectionType | undefined, types: Map<string, IntrospectionType>) {
+  if (type?.kind !== 'OBJECT' || !type.name.endsWith('Connection')) {
+    return undefined;
+  }
+  const nodes = type.fields.find((field) => field.name === 'nodes');
+  if (nodes) {
+    return namedType(nodes.type);
+  }
+  const edges = type.fields.find((field) => field.name === 'edges');
+  const edge = edges ? types.get(namedType(edges.type)) : undefined;
+  const node = edge?.kind === 'OBJECT' ? edge.fields.find((field) => field.name === 'node') : undefined;
+  return node ? namedType(node.type) : undefined;
+}
+
+/**
+ * Compact SDL of the types an API returns, derived from its introspection result.
+ * Input, filter, ordering, pagination and aggregation types are left out, connections are shown as lists
+ * of their items marked @connection, and only the root query fields keep their arguments.
+ */
+export function deriveEntitySchema(introspection: IntrospectionQuery): string {
+  const {__schema: schema} = introspection;
+  const types = new Map(schema.types.map((type) => [type.name, type]));
+  const roots = new Set(
+    [schema.queryType, schema.mutationType, schema.subscriptionType].map((root) => root?.name).filter(Boolean)
+  );
+
+  // Undefined for fields returning boilerplate types, which are left out
+  const renderType = (ref: IntrospectionTypeRef, keepBoilerplate: boolean): string | undefined => {
+    if (ref.kind === 'NON_NULL') {
+      const inner = renderType(ref.ofType, keepBoilerplate);
+      return inner && (inner.endsWith(' @connection') ? inner : `${inner}!`);
+    }
+    if (ref.kind === 'LIST') {
+      const inner = renderType(ref.ofType, keepBoilerplate);
+      return inner && `[${inner}]`;
+    }
+    const type = types.get(ref.name);
+    const item = connectionItem(type, types);
+    if (item) {
+      return `[${item}!]! @connection`;
+    }
+    return !type || !isBoilerplate(type) || BUILT_IN_SCALARS.has(ref.name) || keepBoilerplate ? ref.name : undefined;
+  };
+
+  const renderArgs = (args: readonly IntrospectionInputValue[]) =>
+    args.length ? `(${args.map((arg) => `${arg.name}: ${renderType(arg.type, true)}`).join(', ')})` : '';
+
+  const renderFields = (fields: readonly IntrospectionField[], root: boolean) =>
+    fields.flatMap((field) => {
+      if (root && (field.name.startsWith('_') || SKIPPED_ROOT_FIELDS.has(field.name))) {
+        return [];
+      }
+      const type = renderType(field.type, root);
+      return type ? [`  ${field.name}${root ? renderArgs(field.args) : ''}: ${type}`] : [];
+    });
+
+  const blocks: string[] = [];
+  const query = schema.queryType ? types.get(schema.queryType.name) : undefined;
+  if (query?.kind === 'OBJECT') {
+    blocks.push(`type Query {\n${renderFields(query.fields, true).join('\n')}\n}`);
+  }
+
+  for (const type of schema.types) {
+    if (roots.has(type.name) || isBoilerplate(type)) {
+      continue;
+    }
+    if (type.kind === 'OBJECT' || type.kind === 'INTERFACE') {
+      const keyword = type.kind === 'OBJECT' ? 'type' : 'interface';
+      blocks.push(`${keyword} ${type.name} {\n${renderFields(type.fields, false).join('\n')}\n}`);
+    } else if (type.kind === 'ENUM') {
+      blocks.push(`enum ${type.name} { ${type.enumValues.map((value) => value.name).join(' ')} }`);
+    } else if (type.kind === 'UNION') {
+      blocks.push(`union ${type.name} = ${type.possibleTypes.map((possible) => possible.name).join(' | ')}`);
+    } else if (type.kind === 'SCALAR') {
+      blocks.push(`scalar ${type.name}`);
+    }
+  }
+  return blocks.join('\n\n');
+}
+
+// Provider from the signatures generated types leave in the schema, UNKNOWN for custom APIs
+export function detectProviderFromIntrospection(introspection: IntrospectionQuery): GraphqlProvider {
+  const {__schema: schema} = introspection;
+  const typeNames = new Set(schema.types.map((type) => type.name));
+  const query = schema.types.find((type) => type.name === schema.queryType?.name);
+  const rootFields = new Set(query?.kind === 'OBJECT' ? query.fields.map((field) => field.name) : []);
+
+  if (rootFields.has('_metadata')) {
+    return GraphqlProvider.SUBQL;
+  }
+  if (rootFields.has('_meta') && typeNames.has('_Meta_')) {
+    return GraphqlProvider.THE_GRAPH;
+  }
+  if (schema.queryType?.name === 'query_root' || [...typeNames].some((name) => name.endsWith('_bool_exp'))) {
+    return GraphqlProvider.HASURA;
+  }
+  if (rootFields.has('nodeId') && typeNames.has('PageInfo')) {
+    return GraphqlProvider.POSTGRAPHILE;
+  }
+  return GraphqlProvider.UNKNOWN;
+}
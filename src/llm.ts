@@ -1,10 +1,95 @@
 // Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
-import OpenAI from 'openai';
-import type {GraphQLAgentConfig, GraphQLAnalysisResult, ProjectManifest} from './types.js';
+import type {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {BaseChatModel} from '@langchain/core/language_models/chat_models';
+import {HumanMessage, SystemMessage} from '@langchain/core/messages';
+import {ChatOpenAI} from '@langchain/openai';
+import type {
+  GraphQLAgentConfig,
+  GraphQLAnalysisResult,
+  LLMProvider,
+  OpenAILLMConfig,
+  ProjectManifest,
+} from './types.js';
+
+// Provider for OpenAI-compatible APIs, this is what a plain {model, apiKey, baseUrl} config resolves to
+export class OpenAIProvider implements LLMProvider {
+  constructor(
+    private readonly config: OpenAILLMConfig,
+    private readonly customHeaders?: Record<string, string>
+  ) {}
+
+  getAgentModel(): BaseChatModel {
+    return new ChatOpenAI({
+      model: this.config.model,
+      temperature: this.config.temperature ?? 0,
+      ...this.clientOptions(),
+    });
+  }
+
+  getAnalysisModel(): BaseChatModel {
+    return new ChatOpenAI({
+      model: this.config.model,
+      temperature: 0.5,
+      ...this.clientOptions(),
+    });
+  }
+
+  // Shared by both models, so the agent uses the same key, base URL and headers as the analysis
+  private clientOptions() {
+    const apiKey = this.config.apiKey || process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is required to use OpenAI client.');
+    }
+
+    const headers = this.customHeaders && Object.keys(this.customHeaders).length > 0 ? this.customHeaders : undefined;
+    return {
+      apiKey,
+      configuration: {
+        baseURL: this.config.baseUrl ?? process.env.OPENAI_API_BASE,
+        defaultHeaders: headers,
+      },
+    };
+  }
+}
+
+// Provider wrapping any LangChain chat model (Anthropic, Ollama, llama.cpp, ...)
+export class ChatModelProvider implements LLMProvider {
+  constructor(
+    private readonly agentModel: BaseChatModel,
+    private readonly analysisModel: BaseChatModel = agentModel
+  ) {}
+
+  getAgentModel(): BaseChatModel {
+    return this.agentModel;
+  }
+
+  getAnalysisModel(): BaseChatModel {
+    return this.analysisModel;
+  }
+}
+
+export function resolveLLMProvider(
+  llm: GraphQLAgentConfig['llm'],
+  customHeaders?: Record<string, string>
+): LLMProvider {
+  if ('getAgentModel' in llm && typeof llm.getAgentModel === 'function') {
+    return llm as LLMProvider;
+  }
+  // Chat models also have a `model` field, so check for them before treating llm as an OpenAI config
+  if ('invoke' in llm && typeof llm.invoke === 'function') {
+    return new ChatModelProvider(llm as BaseChatModel);
+  }
+  return new OpenAIProvider(llm as OpenAILLMConfig, customHeaders);
+}
 
-function buildAnalysisPrompt(manifest: ProjectManifest, schemaContent: string): string {
+function buildAnalysisPrompt(
+  manifest: ProjectManifest,
+  schemaContent: string,
+  languages: string[] = [],
+  questionCount = 0
+): string {
   const projectName = manifest.name || 'Unknown Project';
   const description = manifest.description || '';
   const network = manifest.network?.chainId || manifest.network?.endpoint || 'Unknown network';
@@ -27,7 +112,17 @@ Respond with JSON matching:
 {
   "domain_name": "Project name",
   "domain_capabilities": ["..."], // A list of specific capabilities or topics this project can answer questions about.
-  "decline_message": "A message explaining what is out of scope for this project."
+  "decline_message": "A message explaining what is out of scope for this project."${
+    languages.length
+      ? `,
+  "decline_messages": {${languages.map((language) => `"${language}": "..."`).join(', ')}} // decline_message translated into each language`
+      : ''
+  }${
+    questionCount
+      ? `,
+  "suggested_questions": ["..."] // ${questionCount} questions a user could ask, each answered by one query over the schema entities`
+      : ''
+  }
 }
 
 Ensure capabilities reference actual schema entities.`;
@@ -37,30 +132,27 @@ export async function analyzeProjectWithLLM(
   manifest: ProjectManifest,
   schemaContent: string,
   llmConfig: GraphQLAgentConfig['llm'],
-  customHeaders?: Record<string, string>
+  customHeaders?: Record<string, string>,
+  signal?: AbortSignal,
+  callbacks: BaseCallbackHandler[] = [],
+  languages: string[] = [],
+  questionCount = 0
 ): Promise<GraphQLAnalysisResult> {
-  const client = createOpenAIClient(llmConfig.apiKey, llmConfig.baseUrl, customHeaders);
-  const prompt = buildAnalysisPrompt(manifest, schemaContent);
-  const response = await client.chat.completions.create({
-    model: llmConfig.model,
-    temperature: 0.5,
-    messages: [
-      {
-        role: 'system',
-        content: 'You produce concise JSON metadata describing GraphQL indexing projects.',
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
+  const model = resolveLLMProvider(llmConfig, customHeaders).getAnalysisModel();
+  const prompt = buildAnalysisPrompt(manifest, schemaContent, languages, questionCount);
+  const response = await model.invoke(
+    [
+      new SystemMessage('You produce concise JSON metadata describing GraphQL indexing projects.'),
+      new HumanMessage(prompt),
     ],
-  });
+    {...(signal ? {signal} : {}), callbacks}
+  );
 
-  const raw = response.choices[0]?.message?.content || '{}';
-  return parseAnalysis(raw);
+  const raw = (typeof response.content === 'string' ? response.content : response.text) || '{}';
+  return parseAnalysis(raw, languages, questionCount);
 }
 
-function parseAnalysis(text: string): GraphQLAnalysisResult {
+function parseAnalysis(text: string, languages: string[] = [], questionCount = 0): GraphQLAnalysisResult {
   const json = extractJSON(text);
   const parsed = JSON.parse(json);
   if (!parsed || typeof parsed !== 'object') {
@@ -77,10 +169,30 @@ function parseAnalysis(text: string): GraphQLAnalysisResult {
     throw new Error('Incomplete analysis data');
   }
 
+  // Only the requested languages are kept. A missing translation is stored as the English message,
+  // so the project isn't analyzed again for it and the agent is asked to translate at answer time
+  const translations = (parsed.decline_messages ?? {}) as Record<string, unknown>;
+  const declineMessages = Object.fromEntries(
+    languages.map((language) => {
+      const message = translations[language];
+      return [language, typeof message === 'string' && message.trim() ? message.trim() : declineMessage];
+    })
+  );
+
+  // Not verified yet, see verifySuggestedQuestions
+  const suggestedQuestions = Array.isArray(parsed.suggested_questions)
+    ? (parsed.suggested_questions as unknown[])
+        .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+        .map((item) => item.trim())
+        .slice(0, questionCount)
+    : [];
+
   return {
     domainName,
     domainCapabilities,
     declineMessage,
+    ...(Object.keys(declineMessages).length ? {declineMessages} : {}),
+    ...(suggestedQuestions.length ? {suggestedQuestions} : {}),
   };
 }
 
@@ -92,31 +204,3 @@ export function extractJSON(response: string): string {
   }
   return cleaned.trim() || '{}';
 }
-
-export function createOpenAIClient(apiKey?: string, baseUrl?: string, customHeaders?: Record<string, string>): OpenAI {
-  const key = apiKey || process.env.OPENAI_API_KEY;
-  if (!key) {
-    throw new Error('OPENAI_API_KEY is required to use OpenAI client.');
-  }
-  const options: Record<string, unknown> = {apiKey: key};
-
-  // Use AI_GATEWAY_URL if configured, otherwise fall back to OPENAI_API_BASE
-  const baseURL = baseUrl ?? process.env.OPENAI_API_BASE;
-  if (baseURL) {
-    options.baseURL = baseURL;
-  }
-
-  // Add custom headers (e.g., x-user-id for token tracking)
-  if (customHeaders && Object.keys(customHeaders).length > 0) {
-    options.defaultHeaders = customHeaders;
-  }
-
-  // Log header details (safely)
-  const safeHeaders: Record<string, string> = {};
-  for (const [h, v] of Object.entries(customHeaders || {})) {
-    const isSensitive = /api-key|authorization|secret|token|password/i.test(h);
-    safeHeaders[h] = isSensitive ? '***' : v;
-  }
-
-  return new OpenAI(options);
-}
@@ -0,0 +1,62 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {GraphQLProjectConfig} from './types.js';
+
+// Fixed values for the formatting examples, so the prompt only changes with the locale
+const EXAMPLE_NUMBER = 1234567.89;
+const EXAMPLE_DATE = new Date(Date.UTC(2025, 0, 31, 14, 5));
+
+// Canonical BCP 47 tag, e.g. zh-cn becomes zh-CN. Throws for tags that aren't valid
+export function resolveLocale(locale: string): string {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(locale);
+    if (canonical) {
+      return canonical;
+    }
+  } catch {
+    // reported below
+  }
+  throw new Error(`Invalid locale "${locale}", use a BCP 47 tag such as "en-US", "de-DE" or "zh-CN"`);
+}
+
+// English name of the locale's language for prompts, e.g. "Chinese (China)" for zh-CN
+export function languageName(locale: string): string {
+  return new Intl.DisplayNames(['en'], {type: 'language'}).of(locale) ?? locale;
+}
+
+/**
+ * Decline message in the language of the locale: the exact tag first, then its language (zh-TW falls back to zh).
+ * Without a translation from the project analysis the English message is returned.
+ */
+export function localizedDeclineMessage(
+  config: Pick<GraphQLProjectConfig, 'declineMessage' | 'declineMessages'>,
+  locale?: string
+): string {
+  if (!locale || !config.declineMessages) {
+    return config.declineMessage;
+  }
+  const language = new Intl.Locale(locale).language;
+  return config.declineMessages[locale] ?? config.declineMessages[language] ?? config.declineMessage;
+}
+
+// Whether the decline message returned for the locale is a translation the model can use as is
+export function hasLocalizedDeclineMessage(
+  config: Pick<GraphQLProjectConfig, 'declineMessage' | 'declineMessages'>,
+  locale: string
+): boolean {
+  return localizedDeclineMessage(config, locale) !== config.declineMessage;
+}
+
+export function buildLocaleInstructions(locale: string, translateDeclineMessage: boolean): string {
+  const language = languageName(locale);
+  const number = new Intl.NumberFormat(locale).format(EXAMPLE_NUMBER);
+  const date = new Intl.DateTimeFormat(locale, {dateStyle: 'medium', timeZone: 'UTC'}).format(EXAMPLE_DATE);
+
+  return `LANGUAGE AND FORMATTING (${locale}):
+- Always answer in ${language}, whatever language the question or the data is in
+- Keep entity names, IDs, addresses, token symbols and GraphQL field names unchanged
+- Format numbers and dates for ${locale}, e.g. ${number} and ${date}${
+    translateDeclineMessage ? `\n- Translate the decline message into ${language}` : ''
+  }`;
+}
@@ -0,0 +1,37 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+// Starts the MCP server for GRAPHQL_ENDPOINT, see "MCP Server" in the README
+import {createServer} from 'node:http';
+import {destination, pino} from 'pino';
+import {initializeProjectConfig} from './graphql-agent.js';
+import {createGraphQLMcpRequestHandler, serveGraphQLMcpStdio} from './mcp.js';
+import {FilePersistentService, InMemoryPersistentService} from './persistence.js';
+
+// stdout carries the protocol over stdio, so logs go to stderr
+const logger = pino({level: process.env.LOG_LEVEL ?? 'info'}, destination(2));
+
+const endpoint = process.env.GRAPHQL_ENDPOINT;
+if (!endpoint) {
+  logger.error('GRAPHQL_ENDPOINT is required');
+  process.exit(1);
+}
+
+const project = await initializeProjectConfig(
+  endpoint,
+  process.env.PROJECTS_FILE ? new FilePersistentService(process.env.PROJECTS_FILE) : new InMemoryPersistentService(),
+  {model: process.env.LLM_MODEL ?? 'gpt-4o-mini'},
+  process.env.GRAPHQL_AUTHORIZATION ? {Authorization: process.env.GRAPHQL_AUTHORIZATION} : undefined,
+  logger
+);
+
+if (process.env.MCP_TRANSPORT === 'http') {
+  const port = Number(process.env.PORT ?? 8000);
+  const handler = createGraphQLMcpRequestHandler(project, {logger});
+  createServer((req, res) => void handler(req, res)).listen(port, () =>
+    logger.info({port, endpoint}, 'GraphQL MCP server listening')
+  );
+} else {
+  await serveGraphQLMcpStdio(project, {logger});
+  logger.info({endpoint}, 'GraphQL MCP server running on stdio');
+}
@@ -0,0 +1,151 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {randomUUID} from 'node:crypto';
+import type {IncomingMessage, ServerResponse} from 'node:http';
+import type {ToolMessage} from '@langchain/core/messages';
+import type {DynamicStructuredTool} from '@langchain/core/tools';
+import {McpServer, type ToolCallback} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {StdioServerTransport} from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  StreamableHTTPServerTransport,
+  type StreamableHTTPServerTransportOptions,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type {AnySchema} from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import type {RequestHandlerExtra} from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {Transport} from '@modelcontextprotocol/sdk/shared/transport.js';
+import type {CallToolResult, ServerNotification, ServerRequest} from '@modelcontextprotocol/sdk/types.js';
+import type {Tracer} from '@opentelemetry/api';
+import type {Logger} from 'pino';
+import {GraphQLService} from './graphql.service.js';
+import type {GraphQLResponseCache} from './response-cache.js';
+import {isQueryArtifact} from './result.js';
+import {createGraphQLTools} from './tools/index.js';
+import type {FetchFn, GraphQLProjectConfig, SanitizationOptions} from './types.js';
+
+export type GraphQLMcpServerOptions = {
+  logger?: Logger;
+  fetch?: FetchFn;
+  tracer?: Tracer;
+  responseCache?: GraphQLResponseCache;
+  // Query results are returned to the MCP client's model, so they are sanitized as well
+  sanitization?: SanitizationOptions;
+};
+
+export const MCP_CAPABILITIES_URI = 'graphql-agent://project/capabilities';
+export const MCP_SCHEMA_URI = 'graphql-agent://project/schema';
+
+const SERVER_INFO = {name: 'sq-graphql-agent', version: '1.0.0'};
+
+function createTools(project: GraphQLProjectConfig, options: GraphQLMcpServerOptions): DynamicStructuredTool[] {
+  const {fetch, logger, responseCache, sanitization, tracer} = options;
+  const service = new GraphQLService(project, true, logger, fetch, tracer, responseCache);
+  return createGraphQLTools(service, project, logger, undefined, tracer, sanitization);
+}
+
+// Invoked as a tool call, so the query artifact is available to flag failed queries as errors
+async function callTool(tool: DynamicStructuredTool, args: unknown, signal: AbortSignal): Promise<CallToolResult> {
+  const message = (await tool.invoke(
+    {type: 'tool_call', id: randomUUID(), name: tool.name, args: args as Record<string, unknown>},
+    {signal}
+  )) as ToolMessage;
+  const text = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+  return {
+    content: [{type: 'text', text}],
+    ...(isQueryArtifact(message.artifact) ? {isError: !message.artifact.ok} : {}),
+  };
+}
+
+function buildServer(project: GraphQLProjectConfig, tools: DynamicStructuredTool[]): McpServer {
+  const server = new McpServer(SERVER_INFO);
+
+  for (const tool of tools) {
+    // Comparing the LangChain and MCP zod types is too deep for the compiler, so both sides are typed by hand
+    const inputSchema = tool.schema as unknown as AnySchema;
+    const callback = (async (args: unknown, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) =>
+      callTool(tool, args, extra.signal)) as ToolCallback<AnySchema>;
+    server.registerTool<AnySchema, AnySchema>(tool.name, {description: tool.description, inputSchema}, callback);
+  }
+
+  server.registerResource(
+    'capabilities',
+    MCP_CAPABILITIES_URI,
+    {
+      title: `${project.domainName} capabilities`,
+      description: 'What the indexed project can answer, use it to decide whether a question fits this endpoint',
+      mimeType: 'application/json',
+    },
+    async (uri) =>
+      Promise.resolve({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              endpoint: project.endpoint,
+              cid: project.cid,
+              nodeType: project.nodeType,
+              domainName: project.domainName,
+              domainCapabilities: project.domainCapabilities,
+              declineMessage: project.declineMessage,
+              suggestedQuestions: project.suggestedQuestions,
+            }),
+          },
+        ],
+      })
+  );
+
+  server.registerResource(
+    'entity-schema',
+    MCP_SCHEMA_URI,
+    {title: `${project.domainName} entity schema`, mimeType: 'text/plain'},
+    async (uri) => Promise.resolve({contents: [{uri: uri.href, mimeType: 'text/plain', text: project.schemaContent}]})
+  );
+
+  return server;
+}
+
+/**
+ * Creates an MCP server exposing the GraphQL tools and project resources of one initialized project,
+ * so MCP clients such as desktop assistants and IDE agents can query it with their own model.
+ */
+export function createGraphQLMcpServer(
+  project: GraphQLProjectConfig,
+  options: GraphQLMcpServerOptions = {}
+): McpServer {
+  return buildServer(project, createTools(project, options));
+}
+
+// Serves the project over stdin/stdout, logs must not be written to stdout
+export async function serveGraphQLMcpStdio(
+  project: GraphQLProjectConfig,
+  options: GraphQLMcpServerOptions = {}
+): Promise<McpServer> {
+  const server = createGraphQLMcpServer(project, options);
+  await server.connect(new StdioServerTransport());
+  return server;
+}
+
+/**
+ * Request handler serving the project over the MCP streamable HTTP transport, for `http.createServer` or as middleware.
+ * Stateless, every request gets its own MCP server sharing the same GraphQL tools.
+ */
+export function createGraphQLMcpRequestHandler(
+  project: GraphQLProjectConfig,
+  options: GraphQLMcpServerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const tools = createTools(project, options);
+  return async (req, res) => {
+    const server = buildServer(project, tools);
+    // Stateless without a session id generator
+    const transportOptions: StreamableHTTPServerTransportOptions = {};
+    const transport = new StreamableHTTPServerTransport(transportOptions);
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+    // The transport's sessionId getter can return undefined, which the optional Transport.sessionId doesn't allow
+    await server.connect(transport as Transport);
+    await transport.handleRequest(req, res);
+  };
+}
@@ -0,0 +1,97 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {mkdir, readFile, writeFile} from 'node:fs/promises';
+import {dirname} from 'node:path';
+import type {GraphQLProjectConfig, PersistentService} from './types.js';
+
+type StoredConfigs = Record<string, GraphQLProjectConfig>;
+
+function configKey(endpoint: string, cid: string, namespace?: string): string {
+  return namespace ? `${namespace}:${endpoint}:${cid}` : `${endpoint}:${cid}`;
+}
+
+// Without a CID the most recently updated config of the endpoint is returned
+function findConfig(
+  configs: StoredConfigs,
+  endpoint: string,
+  cid?: string,
+  namespace?: string
+): GraphQLProjectConfig | undefined {
+  if (cid) {
+    return configs[configKey(endpoint, cid, namespace)];
+  }
+  return Object.entries(configs)
+    .filter(([key, config]) => config.endpoint === endpoint && key === configKey(endpoint, config.cid, namespace))
+    .map(([, config]) => config)
+    .sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''))[0];
+}
+
+function listConfigs(configs: StoredConfigs, namespace?: string): GraphQLProjectConfig[] {
+  return Object.entries(configs)
+    .filter(([key, config]) => key === configKey(config.endpoint, config.cid, namespace))
+    .map(([, config]) => config);
+}
+
+// Credentials belong to the caller that registered the project, they are never written to a store
+export function withoutCredentials(config: GraphQLProjectConfig): GraphQLProjectConfig {
+  const persisted = {...config};
+  delete persisted.authorization;
+  return persisted;
+}
+
+// Keeps project configs for the lifetime of the process, projects are analyzed again after a restart
+export class InMemoryPersistentService implements PersistentService {
+  private configs: StoredConfigs = {};
+
+  async save(endpoint: string, config: GraphQLProjectConfig, namespace?: string): Promise<void> {
+    this.configs[configKey(endpoint, config.cid, namespace)] = config;
+    return Promise.resolve();
+  }
+
+  async load(endpoint: string, cid?: string, namespace?: string): Promise<GraphQLProjectConfig | undefined> {
+    return Promise.resolve(findConfig(this.configs, endpoint, cid, namespace));
+  }
+
+  async list(namespace?: string): Promise<GraphQLProjectConfig[]> {
+    return Promise.resolve(listConfigs(this.configs, namespace));
+  }
+}
+
+/**
+ * Keeps project configs in a single JSON file, so analyses survive restarts.
+ * Meant for a single server process, concurrent writers would overwrite each other.
+ */
+export class FilePersistentService implements PersistentService {
+  private configs?: Promise<StoredConfigs>;
+
+  constructor(private readonly path: string) {}
+
+  private async read(): Promise<StoredConfigs> {
+    this.configs ??= readFile(this.path, 'utf-8').then(
+      (content) => JSON.parse(content) as StoredConfigs,
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return {};
+        }
+        throw error;
+      }
+    );
+    return this.configs;
+  }
+
+  async save(endpoint: string, config: GraphQLProjectConfig, namespace?: string): Promise<void> {
+    const configs = await this.read();
+    configs[configKey(endpoint, config.cid, namespace)] = config;
+    await mkdir(dirname(this.path), {recursive: true});
+    await writeFile(this.path, `${JSON.stringify(configs, null, 2)}\n`);
+  }
+
+  async load(endpoint: string, cid?: string, namespace?: string): Promise<GraphQLProjectConfig | undefined> {
+    return findConfig(await this.read(), endpoint, cid, namespace);
+  }
+
+  async list(namespace?: string): Promise<GraphQLProjectConfig[]> {
+    return listConfigs(await this.read(), namespace);
+  }
+}
@@ -1,42 +1,140 @@
 // Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import {createHash} from 'node:crypto';
+import {readFile} from 'node:fs/promises';
+import {resolve} from 'node:path';
+import type {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {IntrospectionQuery} from 'graphql';
 import {type Logger} from 'pino';
 import yaml from 'yaml';
 import type {GraphQLService} from './graphql.service.js';
+import {deriveEntitySchema, detectProviderFromIntrospection} from './introspection.js';
 import {analyzeProjectWithLLM} from './llm.js';
+import {diffSchemas, schemaDiffNeedsAnalysis} from './schema-diff.js';
+import {DEFAULT_SUGGESTED_QUESTIONS, verifySuggestedQuestions} from './suggested-questions.js';
+import {LLMSpanHandler, withSpan} from './tracing.js';
 import {
   type GraphQLAgentConfig,
   type GraphQLAnalysisResult,
   type GraphQLProjectConfig,
   GraphqlProvider,
+  type InitializeProjectOptions,
   type ProjectManifest,
+  type ProjectSource,
+  type SchemaChange,
+  type SchemaDiff,
 } from './types.js';
+import {reportUsage, UsageTracker} from './usage.js';
 import {fetchFromIPFS} from './utils.js';
 
+// Looked up in this order when a project directory doesn't name its manifest
+export const MANIFEST_FILES = ['project.yaml', 'subgraph.yaml', 'project.json'];
+
+const DEFAULT_RETRY_BACKOFF_MS = 60_000;
+const DEFAULT_MAX_RETRY_BACKOFF_MS = 60 * 60_000;
+
+// Where relative paths of a manifest point: files of the deployment on IPFS, or a local project directory
+type ManifestLocation = {cid: string} | {directory: string};
+
+// Stands in for the CID of a deployment, changes whenever one of the parts does
+function contentId(prefix: string, ...parts: string[]): string {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part).update('\0');
+  }
+  return `${prefix}-${hash.digest('hex').slice(0, 32)}`;
+}
+
+// Local projects are only known by the hash of their files, which can't be read back from the id
+export function isLocalDeployment(cid: string): boolean {
+  return cid.startsWith('local-');
+}
+
 export class ProjectManager {
+  private introspection?: Promise<IntrospectionQuery> | undefined;
+
   constructor(
     private readonly graphqlService: GraphQLService,
     private readonly llmConfig: GraphQLAgentConfig['llm'],
-    private logger?: Logger
+    private logger?: Logger,
+    private readonly options: InitializeProjectOptions = {}
   ) {}
 
-  // Enrich GraphQL project config with analysis data
+  /**
+   * Enrich GraphQL project config with analysis data.
+   * With the config of an earlier deployment of the endpoint, the schemas are diffed and its analysis is carried
+   * over unless entities or fields were added or removed.
+   */
   async enrichGraphQLConfig(
     config: GraphQLProjectConfig,
     force = false,
-    logger?: Logger
+    logger?: Logger,
+    signal?: AbortSignal,
+    previous?: GraphQLProjectConfig
   ): Promise<GraphQLProjectConfig> {
-    if (!this.shouldAttemptAnalysis(config, force)) {
+    const analyze = !!previous || this.shouldAttemptAnalysis(config, force);
+    // A missing schema is always loaded, the retry backoff only holds back the LLM analysis
+    if (!analyze && config.schemaContent) {
       return config;
     }
 
+    let fallback = config;
     try {
       // Load project resources (now returns GraphQLProjectConfig)
-      let [updated, manifest] = await this.loadProjectResources(config);
+      let [updated, manifest] = await this.loadProjectResources(config, signal);
+      // A failed analysis keeps the loaded schema, so the config is usable while the analysis is retried
+      fallback = updated;
+
+      if (previous) {
+        updated = this.carryAnalysis(updated, previous);
+        fallback = updated;
+        const diff = this.diffSchemas(previous, updated);
+        // Without a diff there's no telling whether the carried analysis still fits, so the project is analyzed again
+        const reanalyze = !diff || force || schemaDiffNeedsAnalysis(diff) || this.shouldAttemptAnalysis(updated, false);
+        if (diff) {
+          await this.reportSchemaChange({
+            endpoint: config.endpoint,
+            previousCid: previous.cid,
+            cid: config.cid,
+            diff,
+            reanalyze,
+          });
+        }
+        if (!reanalyze) {
+          if (previous.suggestedQuestions?.length) {
+            updated = await this.reverifySuggestedQuestions(updated, previous.suggestedQuestions, signal);
+          }
+          return await this.cacheIntrospectionSchema(updated, logger, signal);
+        }
+      }
+
+      if (!analyze) {
+        return await this.cacheIntrospectionSchema(updated, logger, signal);
+      }
 
       // We need to get the manifest for analysis, but we won't store it
-      const analysis = await this.obtainGraphQLAnalysis(manifest, updated.schemaContent);
+      const tracker = new UsageTracker();
+      const callbacks = this.options.tracer ? [tracker, new LLMSpanHandler(this.options.tracer)] : [tracker];
+      let analysis: GraphQLAnalysisResult;
+      try {
+        analysis = await this.obtainGraphQLAnalysis(manifest, updated.schemaContent, undefined, signal, callbacks);
+        if (analysis?.suggestedQuestions) {
+          analysis.suggestedQuestions = await this.verifySuggestedQuestions(
+            updated,
+            analysis.suggestedQuestions,
+            signal,
+            callbacks
+          );
+        }
+      } finally {
+        updated.lastAnalysisUsage = reportUsage(
+          this.options.usage,
+          tracker,
+          {operation: 'analysis', endpoint: config.endpoint, cid: config.cid},
+          this.logger
+        );
+      }
 
       if (analysis) {
         updated = {
@@ -46,33 +144,29 @@ export class ProjectManager {
           declineMessage: analysis.declineMessage,
           lastAnalyzedAt: new Date().toISOString(),
         };
+        if (analysis.declineMessages) {
+          updated.declineMessages = analysis.declineMessages;
+        } else {
+          delete updated.declineMessages;
+        }
+        if (analysis.suggestedQuestions?.length) {
+          updated.suggestedQuestions = analysis.suggestedQuestions;
+        } else {
+          delete updated.suggestedQuestions;
+        }
         delete updated.lastAnalysisError;
+        delete updated.analysisFailures;
+        delete updated.lastAnalysisFailedAt;
       } else {
-        updated.lastAnalysisError = 'LLM analysis returned no result.';
-      }
-
-      if (!updated.introspectionSchema) {
-        try {
-          const introspectionSchema = await this.graphqlService.fetchIntrospectionSchema();
-
-          if (introspectionSchema) {
-            updated.introspectionSchema = introspectionSchema;
-            logger?.info({cid: updated.cid}, 'Cached introspection schema');
-          }
-        } catch (error) {
-          logger?.warn(
-            {
-              cid: updated.cid,
-              error: error instanceof Error ? error.message : String(error),
-              errorType: 'introspection_cache_failed',
-            },
-            'Failed to cache introspection schema'
-          );
-        }
+        updated = this.analysisFailed(updated, 'LLM analysis returned no result.');
       }
 
-      return updated;
+      return await this.cacheIntrospectionSchema(updated, logger, signal);
     } catch (error) {
+      // A cancelled analysis is not an analysis failure, don't record it on the config
+      if (signal?.aborted) {
+        throw error;
+      }
       const message = error instanceof Error ? error.message : String(error);
       this.logger?.warn(
         {
@@ -82,13 +176,153 @@ export class ProjectManager {
         },
         'GraphQL analysis failed'
       );
-      return {
-        ...config,
-        lastAnalysisError: message,
-      };
+      return this.analysisFailed(fallback, message);
     }
   }
 
+  // Keeps whatever analysis the config had, the failure is retried after the backoff of the policy
+  private analysisFailed(config: GraphQLProjectConfig, error: string): GraphQLProjectConfig {
+    return {
+      ...config,
+      lastAnalysisError: error,
+      analysisFailures: (config.analysisFailures ?? 0) + 1,
+      lastAnalysisFailedAt: new Date().toISOString(),
+    };
+  }
+
+  // Analysis of the previous deployment on top of the resources of the new one
+  private carryAnalysis(updated: GraphQLProjectConfig, previous: GraphQLProjectConfig): GraphQLProjectConfig {
+    const {declineMessage, declineMessages, domainCapabilities, domainName, lastAnalyzedAt} = previous;
+    return {
+      ...updated,
+      domainName,
+      domainCapabilities,
+      declineMessage,
+      ...(declineMessages ? {declineMessages} : {}),
+      ...(lastAnalyzedAt ? {lastAnalyzedAt} : {}),
+    };
+  }
+
+  private async verifySuggestedQuestions(
+    config: GraphQLProjectConfig,
+    questions: string[],
+    signal?: AbortSignal,
+    callbacks?: BaseCallbackHandler[]
+  ): Promise<string[]> {
+    return verifySuggestedQuestions(
+      questions,
+      config,
+      this.graphqlService,
+      this.llmConfig,
+      this.options.suggestedQuestions,
+      signal,
+      callbacks,
+      this.logger
+    );
+  }
+
+  // Questions of the previous deployment are only carried over once they work against the new schema
+  private async reverifySuggestedQuestions(
+    config: GraphQLProjectConfig,
+    questions: string[],
+    signal?: AbortSignal
+  ): Promise<GraphQLProjectConfig> {
+    if (!this.options.suggestedQuestions) {
+      return config;
+    }
+    const tracker = new UsageTracker();
+    const callbacks = this.options.tracer ? [tracker, new LLMSpanHandler(this.options.tracer)] : [tracker];
+    let verified: string[];
+    try {
+      verified = await this.verifySuggestedQuestions(config, questions, signal, callbacks);
+    } finally {
+      reportUsage(
+        this.options.usage,
+        tracker,
+        {operation: 'analysis', endpoint: config.endpoint, cid: config.cid},
+        this.logger
+      );
+    }
+    return verified.length ? {...config, suggestedQuestions: verified} : config;
+  }
+
+  // A schema that doesn't parse, e.g. saved by an older version, skips the diff instead of failing the analysis
+  private diffSchemas(previous: GraphQLProjectConfig, updated: GraphQLProjectConfig): SchemaDiff | undefined {
+    try {
+      return diffSchemas(previous.schemaContent, updated.schemaContent);
+    } catch (error) {
+      this.logger?.warn(
+        {
+          cid: updated.cid,
+          previousCid: previous.cid,
+          error: error instanceof Error ? error.message : String(error),
+          errorType: 'schema_diff_failed',
+        },
+        'Schema diff failed'
+      );
+      return undefined;
+    }
+  }
+
+  private async reportSchemaChange(change: SchemaChange): Promise<void> {
+    const {diff} = change;
+    this.logger?.info(
+      {
+        endpoint: change.endpoint,
+        previousCid: change.previousCid,
+        cid: change.cid,
+        reanalyze: change.reanalyze,
+        addedEntities: diff.addedEntities.length,
+        removedEntities: diff.removedEntities.length,
+        addedFields: diff.addedFields.length,
+        removedFields: diff.removedFields.length,
+        retypedFields: diff.retypedFields.length,
+      },
+      'Endpoint moved to a new deployment'
+    );
+    // A failing callback must not stop the project from being initialized
+    try {
+      await this.options.onSchemaChange?.(change);
+    } catch (error) {
+      this.logger?.warn(
+        {
+          cid: change.cid,
+          error: error instanceof Error ? error.message : String(error),
+          errorType: 'schema_change_callback_failed',
+        },
+        'Schema change callback failed'
+      );
+    }
+  }
+
+  private async cacheIntrospectionSchema(
+    config: GraphQLProjectConfig,
+    logger?: Logger,
+    signal?: AbortSignal
+  ): Promise<GraphQLProjectConfig> {
+    if (config.introspectionSchema) {
+      return config;
+    }
+    try {
+      const introspectionSchema = await this.graphqlService.fetchIntrospectionSchema(signal);
+
+      if (introspectionSchema) {
+        logger?.info({cid: config.cid}, 'Cached introspection schema');
+        return {...config, introspectionSchema};
+      }
+    } catch (error) {
+      logger?.warn(
+        {
+          cid: config.cid,
+          error: error instanceof Error ? error.message : String(error),
+          errorType: 'introspection_cache_failed',
+        },
+        'Failed to cache introspection schema'
+      );
+    }
+    return config;
+  }
+
   private detectProvider(manifest: ProjectManifest): GraphqlProvider {
     const runner = manifest.runner as Record<string, unknown> | undefined;
     const nodeName = this.extractName(runner?.node);
@@ -146,8 +380,25 @@ export class ProjectManager {
     return null;
   }
 
-  // Resolve schema content based on manifest and CID
-  private async resolveSchemaContent(cid: string, manifest: ProjectManifest): Promise<string> {
+  private async fetchFromIPFS(path: string, signal?: AbortSignal): Promise<string> {
+    return withSpan(this.options.tracer, 'ipfs.fetch', {'ipfs.path': path}, async () =>
+      fetchFromIPFS(path, signal, this.options.fetch)
+    );
+  }
+
+  private async readProjectFile(location: ManifestLocation, file: string, signal?: AbortSignal): Promise<string> {
+    if ('cid' in location) {
+      return this.fetchFromIPFS(`${location.cid}/${file.replace(/^\//, '')}`, signal);
+    }
+    return readFile(resolve(location.directory, file), {encoding: 'utf8', ...(signal ? {signal} : {})});
+  }
+
+  // Resolve schema content based on manifest and where its relative paths point
+  private async resolveSchemaContent(
+    location: ManifestLocation,
+    manifest: ProjectManifest,
+    signal?: AbortSignal
+  ): Promise<string> {
     const schemaInfo = manifest.schema;
     if (!schemaInfo) {
       throw new Error('Manifest does not declare a schema.');
@@ -155,27 +406,25 @@ export class ProjectManager {
 
     if (typeof schemaInfo === 'string') {
       if (schemaInfo.startsWith('ipfs://')) {
-        return fetchFromIPFS(schemaInfo);
+        return this.fetchFromIPFS(schemaInfo, signal);
       }
-      const schemaPath = schemaInfo.startsWith('/') ? schemaInfo.slice(1) : schemaInfo;
-      return fetchFromIPFS(`${cid}/${schemaPath}`);
+      return this.readProjectFile(location, schemaInfo, signal);
     }
 
     if (typeof schemaInfo === 'object') {
       const file = (schemaInfo as Record<string, unknown>).file;
       if (typeof file === 'string') {
-        if (file.startsWith('ipfs://')) {
-          return fetchFromIPFS(file);
+        if (file.startsWith('ipfs://') || file.startsWith('/ipfs/')) {
+          return this.fetchFromIPFS(file, signal);
         }
-        const normalized = file.startsWith('/ipfs/') ? file.replace('/ipfs/', '') : `${cid}/${file.replace(/^\//, '')}`;
-        return fetchFromIPFS(normalized);
+        return this.readProjectFile(location, file, signal);
       }
       if (file && typeof file === 'object' && typeof (file as Record<string, unknown>)['/'] === 'string') {
         const pointer = (file as Record<string, unknown>)['/'] as string;
         const normalized = pointer.startsWith('/ipfs/')
           ? pointer.replace('/ipfs/', '')
           : pointer.replace(/^ipfs:\/\//, '');
-        return fetchFromIPFS(normalized);
+        return this.fetchFromIPFS(normalized, signal);
       }
     }
 
@@ -194,11 +443,88 @@ export class ProjectManager {
     }
   }
 
-  // Load project resources and return graphql schema and provider type
-  private async loadProjectResources(config: GraphQLProjectConfig): Promise<[GraphQLProjectConfig, ProjectManifest]> {
-    const manifestContent = await fetchFromIPFS(config.cid);
+  private async readManifestFile(
+    source: Extract<ProjectSource, {directory: string}>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const candidates = source.manifestFile ? [source.manifestFile] : MANIFEST_FILES;
+    for (const file of candidates) {
+      try {
+        return await readFile(resolve(source.directory, file), {encoding: 'utf8', ...(signal ? {signal} : {})});
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+    throw new Error(`No ${candidates.join(' or ')} found in ${source.directory}`);
+  }
+
+  // Manifest and schema from the local source, or from IPFS by the CID of the deployment
+  private async loadManifestAndSchema(
+    cid: string,
+    signal?: AbortSignal
+  ): Promise<{manifest: ProjectManifest; manifestContent: string; schema: string}> {
+    const {source} = this.options;
+    if (source && 'manifest' in source) {
+      return {manifest: this.parseManifest(source.manifest), manifestContent: source.manifest, schema: source.schema};
+    }
+
+    const manifestContent = source
+      ? await this.readManifestFile(source, signal)
+      : await this.fetchFromIPFS(cid, signal);
     const manifest = this.parseManifest(manifestContent);
-    const schema = await this.resolveSchemaContent(config.cid, manifest);
+    const schema = await this.resolveSchemaContent(source ?? {cid}, manifest, signal);
+    return {manifest, manifestContent, schema};
+  }
+
+  /**
+   * Stands in for the CID of a project loaded from a local source when the endpoint doesn't report one,
+   * a hash of the manifest and schema so editing either counts as a new deployment.
+   */
+  async localDeploymentId(signal?: AbortSignal): Promise<string> {
+    if (!this.options.source) {
+      throw new Error('A local deployment id needs a project source.');
+    }
+    const {manifestContent, schema} = await this.loadManifestAndSchema('', signal);
+    return contentId('local', manifestContent, schema);
+  }
+
+  // Id of an API without a CID, derived from its entity schema so schema changes count as a new deployment
+  async introspectionDeploymentId(signal?: AbortSignal): Promise<string> {
+    return contentId('introspection', deriveEntitySchema(await this.loadIntrospection(signal)));
+  }
+
+  // Fetched once, the deployment id and the project resources are derived from the same result
+  private async loadIntrospection(signal?: AbortSignal): Promise<IntrospectionQuery> {
+    if (!this.introspection) {
+      this.introspection = this.graphqlService.fetchIntrospectionSchema(signal);
+      this.introspection.catch(() => {
+        this.introspection = undefined;
+      });
+    }
+    return this.introspection;
+  }
+
+  // Load project resources and return graphql schema and provider type
+  private async loadProjectResources(
+    config: GraphQLProjectConfig,
+    signal?: AbortSignal
+  ): Promise<[GraphQLProjectConfig, ProjectManifest]> {
+    if (config.schemaSource === 'introspection') {
+      const introspectionSchema = await this.loadIntrospection(signal);
+      return [
+        {
+          ...config,
+          schemaContent: deriveEntitySchema(introspectionSchema),
+          nodeType: detectProviderFromIntrospection(introspectionSchema),
+          introspectionSchema,
+        },
+        {},
+      ];
+    }
+
+    const {manifest, schema} = await this.loadManifestAndSchema(config.cid, signal);
     const provider = this.detectProvider(manifest);
 
     return [
@@ -214,9 +540,20 @@ export class ProjectManager {
   private async obtainGraphQLAnalysis(
     manifest: ProjectManifest,
     schema: string,
-    customHeaders?: Record<string, string>
+    customHeaders?: Record<string, string>,
+    signal?: AbortSignal,
+    callbacks?: BaseCallbackHandler[]
   ): Promise<GraphQLAnalysisResult> {
-    return analyzeProjectWithLLM(manifest, schema, this.llmConfig, customHeaders);
+    return analyzeProjectWithLLM(
+      manifest,
+      schema,
+      this.llmConfig,
+      customHeaders,
+      signal,
+      callbacks,
+      this.options.languages,
+      this.options.suggestedQuestions ? (this.options.suggestedQuestions.count ?? DEFAULT_SUGGESTED_QUESTIONS) : 0
+    );
   }
 
   private shouldAttemptAnalysis(config: GraphQLProjectConfig, force: boolean): boolean {
@@ -224,11 +561,38 @@ export class ProjectManager {
       return true;
     }
 
+    if (this.inRetryBackoff(config)) {
+      return false;
+    }
+
+    const {maxAgeMs} = this.options.analysisPolicy ?? {};
     return (
       !config.domainName ||
       !config.domainCapabilities ||
       config.domainCapabilities.length === 0 ||
-      !config.schemaContent
+      !config.schemaContent ||
+      // A failed analysis is retried once the backoff is over
+      Boolean(config.lastAnalysisError) ||
+      // A language was added since the last analysis
+      (this.options.languages ?? []).some((language) => !config.declineMessages?.[language]) ||
+      (maxAgeMs !== undefined && Date.now() - Date.parse(config.lastAnalyzedAt ?? '') >= maxAgeMs) ||
+      // Without a date, e.g. from before analyses were dated, the age is unknown
+      (maxAgeMs !== undefined && !config.lastAnalyzedAt)
     );
   }
+
+  private inRetryBackoff(config: GraphQLProjectConfig): boolean {
+    if (!config.lastAnalysisError || !config.lastAnalysisFailedAt) {
+      return false;
+    }
+    const {maxRetryBackoffMs = DEFAULT_MAX_RETRY_BACKOFF_MS, retryBackoffMs = DEFAULT_RETRY_BACKOFF_MS} =
+      this.options.analysisPolicy ?? {};
+    const backoff = Math.min(retryBackoffMs * 2 ** Math.max((config.analysisFailures ?? 1) - 1, 0), maxRetryBackoffMs);
+    return Date.now() - Date.parse(config.lastAnalysisFailedAt) < backoff;
+  }
+
+  // Whether enrichGraphQLConfig would analyze the config again under the policy, or load its missing schema
+  needsAnalysis(config: GraphQLProjectConfig): boolean {
+    return !config.schemaContent || this.shouldAttemptAnalysis(config, false);
+  }
 }
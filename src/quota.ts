@@ -0,0 +1,182 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {Logger} from 'pino';
+import type {RunBudget} from './budget.js';
+import type {LLMUsage, QuotaCounterStore, QuotaExceeded, QuotaLimits, QuotaOptions, StructuredAnswer} from './types.js';
+
+// Tenant of invocations without options.tenant
+export const DEFAULT_TENANT = 'default';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Fixed windows aligned to the epoch, so daily windows start at midnight UTC
+function currentWindow(now: number, sizeMs: number): {start: number; resetInMs: number} {
+  const start = Math.floor(now / sizeMs) * sizeMs;
+  return {start, resetInMs: start + sizeMs - now};
+}
+
+// Keeps counters for the lifetime of the process, expired counters are dropped when a new one is created
+export class InMemoryQuotaCounterStore implements QuotaCounterStore {
+  private counters = new Map<string, {value: number; expiresAt: number}>();
+
+  async increment(key: string, amount: number, windowMs: number): Promise<number> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt > now) {
+      counter.value += amount;
+      return Promise.resolve(counter.value);
+    }
+    for (const [other, {expiresAt}] of this.counters) {
+      if (expiresAt <= now) {
+        this.counters.delete(other);
+      }
+    }
+    this.counters.set(key, {value: amount, expiresAt: now + windowMs});
+    return Promise.resolve(amount);
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return Promise.resolve(counter && counter.expiresAt > Date.now() ? counter.value : 0);
+  }
+}
+
+/**
+ * Rate limits and quotas per tenant key: questions per minute, GraphQL calls per question and LLM tokens per day.
+ * The token budget is checked before each question, so the question that crosses it is still answered in full.
+ */
+export class QuotaLimiter {
+  private readonly store: QuotaCounterStore;
+
+  constructor(private readonly options: QuotaOptions = {}) {
+    this.store = options.store ?? new InMemoryQuotaCounterStore();
+  }
+
+  async limits(tenant: string): Promise<QuotaLimits> {
+    const {graphqlCallsPerQuestion, requestsPerMinute, tokensPerDay} = this.options;
+    return {
+      ...(requestsPerMinute !== undefined ? {requestsPerMinute} : {}),
+      ...(graphqlCallsPerQuestion !== undefined ? {graphqlCallsPerQuestion} : {}),
+      ...(tokensPerDay !== undefined ? {tokensPerDay} : {}),
+      ...(await this.options.limitsFor?.(tenant)),
+    };
+  }
+
+  // Counts a question of the tenant. A tenant out of tokens is turned away without using up a request
+  async admit(tenant: string): Promise<QuotaExceeded | undefined> {
+    const limits = await this.limits(tenant);
+    const now = Date.now();
+
+    if (limits.tokensPerDay !== undefined) {
+      const day = currentWindow(now, DAY_MS);
+      const used = await this.store.get(`tokens:${tenant}:${day.start}`);
+      if (used >= limits.tokensPerDay) {
+        return {limit: 'tokens_per_day', tenant, max: limits.tokensPerDay, used, retryAfterMs: day.resetInMs};
+      }
+    }
+
+    if (limits.requestsPerMinute !== undefined) {
+      const minute = currentWindow(now, MINUTE_MS);
+      const used = await this.store.increment(`requests:${tenant}:${minute.start}`, 1, minute.resetInMs);
+      if (used > limits.requestsPerMinute) {
+        return {
+          limit: 'requests_per_minute',
+          tenant,
+          max: limits.requestsPerMinute,
+          used,
+          retryAfterMs: minute.resetInMs,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  async recordTokens(tenant: string, tokens: number): Promise<void> {
+    if (tokens <= 0) {
+      return;
+    }
+    const day = currentWindow(Date.now(), DAY_MS);
+    await this.store.increment(`tokens:${tenant}:${day.start}`, tokens, day.resetInMs);
+  }
+
+  // LLM tokens the tenant used since midnight UTC
+  async tokensUsedToday(tenant: string): Promise<number> {
+    return this.store.get(`tokens:${tenant}:${currentWindow(Date.now(), DAY_MS).start}`);
+  }
+}
+
+/**
+ * Counts a question of the tenant against the quota and logs when it is turned away.
+ * An unavailable counter store doesn't take the agent down, the question runs unmetered.
+ */
+export async function admitQuestion(
+  quota: QuotaLimiter | undefined,
+  tenant: string,
+  logger?: Logger
+): Promise<QuotaExceeded | undefined> {
+  try {
+    const exceeded = await quota?.admit(tenant);
+    if (exceeded) {
+      logger?.warn(exceeded, 'Quota exceeded');
+    }
+    return exceeded;
+  } catch (error) {
+    logger?.warn({error: error instanceof Error ? error.message : String(error)}, 'Quota check failed');
+    return undefined;
+  }
+}
+
+// Usage of a question that was answered without running the agent
+export function noUsage(): LLMUsage {
+  return {promptTokens: 0, completionTokens: 0, totalTokens: 0, llmCalls: 0, byModel: {}};
+}
+
+// Set when the query tool turned down a GraphQL request of the run
+export function graphqlCallQuotaExceeded(budget: RunBudget, tenant: string): QuotaExceeded | undefined {
+  const max = budget.maxGraphQLCalls;
+  return max !== undefined && budget.graphqlCalls > max
+    ? {limit: 'graphql_calls_per_question', tenant, max, used: max}
+    : undefined;
+}
+
+// The question was turned away without running, unlike a run cut short by the GraphQL call quota
+export function isQuotaRejection(exceeded: QuotaExceeded | undefined): exceeded is QuotaExceeded {
+  return !!exceeded && exceeded.limit !== 'graphql_calls_per_question';
+}
+
+function formatRetryAfter(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 120) {
+    return `${seconds} seconds`;
+  }
+  return seconds < 2 * 60 * 60 ? `${Math.ceil(seconds / 60)} minutes` : `${Math.ceil(seconds / 3600)} hours`;
+}
+
+export function quotaMessage(exceeded: QuotaExceeded): string {
+  const retry = exceeded.retryAfterMs !== undefined ? ` Try again in ${formatRetryAfter(exceeded.retryAfterMs)}.` : '';
+  if (exceeded.limit === 'requests_per_minute') {
+    return `Rate limit exceeded: at most ${exceeded.max} questions per minute.${retry}`;
+  }
+  if (exceeded.limit === 'tokens_per_day') {
+    return `The daily quota of ${exceeded.max} LLM tokens is used up.${retry}`;
+  }
+  return `The quota of ${exceeded.max} GraphQL calls per question is used up.`;
+}
+
+// Answer of a question turned away by the limiter, nothing ran so the usage is zero
+export function quotaExceededAnswer(exceeded: QuotaExceeded): StructuredAnswer {
+  return {
+    answer: quotaMessage(exceeded),
+    queries: [],
+    data: undefined,
+    toolCalls: [],
+    declined: false,
+    needsUserInput: false,
+    partial: false,
+    cached: false,
+    quotaExceeded: exceeded,
+    usage: noUsage(),
+  };
+}
@@ -0,0 +1,129 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {GraphQLService} from './graphql.service.js';
+import {withoutCredentials} from './persistence.js';
+import {isLocalDeployment, ProjectManager} from './project-manager.js';
+import type {GraphQLAgentConfig, GraphQLProjectConfig, PersistentService, ProjectRefresherOptions} from './types.js';
+
+const DEFAULT_INTERVAL_MS = 10 * 60_000;
+
+// Latest config of every endpoint, configs of earlier deployments are kept as they are
+function latestConfigs(configs: GraphQLProjectConfig[]): GraphQLProjectConfig[] {
+  const latest = new Map<string, GraphQLProjectConfig>();
+  for (const config of configs) {
+    const current = latest.get(config.endpoint);
+    if (!current || (config.updatedAt ?? '') > (current.updatedAt ?? '')) {
+      latest.set(config.endpoint, config);
+    }
+  }
+  return [...latest.values()];
+}
+
+/**
+ * Analyzes saved project configs again when they are stale under the analysis policy, or when their last
+ * analysis failed and the retry backoff is over. Projects loaded from a local source are skipped.
+ */
+export class ProjectRefresher {
+  private timer?: NodeJS.Timeout | undefined;
+  private running?: Promise<GraphQLProjectConfig[]> | undefined;
+  private controller?: AbortController;
+
+  constructor(
+    private readonly persistentService: PersistentService,
+    private readonly llmConfig: GraphQLAgentConfig['llm'],
+    private readonly options: ProjectRefresherOptions = {}
+  ) {}
+
+  /**
+   * Checks the saved configs once and returns the ones that were analyzed again, including failed analyses.
+   * With force every config is analyzed again.
+   */
+  async refresh(force = false, signal?: AbortSignal): Promise<GraphQLProjectConfig[]> {
+    if (!this.persistentService.list) {
+      throw new Error('The persistent service cannot list its configs, implement PersistentService.list.');
+    }
+    const {logger, namespace} = this.options;
+    const refreshed: GraphQLProjectConfig[] = [];
+
+    // One at a time, so a refresh doesn't fire a burst of LLM calls
+    for (const config of latestConfigs(await this.persistentService.list(namespace))) {
+      signal?.throwIfAborted();
+      if (isLocalDeployment(config.cid)) {
+        continue;
+      }
+      const pm = this.projectManager(config);
+      if (!force && !pm.needsAnalysis(config)) {
+        continue;
+      }
+
+      const enriched = await pm.enrichGraphQLConfig(config, force, logger, signal);
+      await this.persistentService.save(config.endpoint, withoutCredentials(enriched), namespace);
+      refreshed.push(enriched);
+      if (enriched.lastAnalysisError) {
+        continue;
+      }
+      try {
+        await this.options.onRefresh?.(enriched);
+      } catch (error) {
+        logger?.warn(
+          {
+            cid: enriched.cid,
+            error: error instanceof Error ? error.message : String(error),
+            errorType: 'project_refresh_callback_failed',
+          },
+          'Project refresh callback failed'
+        );
+      }
+    }
+    return refreshed;
+  }
+
+  // Refreshes right away and then every intervalMs, without keeping the process alive
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.timer.unref();
+    void this.tick();
+  }
+
+  // Stops the timer and cancels a refresh in progress
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.controller?.abort();
+    await this.running?.catch(() => undefined);
+  }
+
+  private async tick(): Promise<void> {
+    // A slow refresh is not started again on top of itself
+    if (this.running) {
+      return;
+    }
+    this.controller = new AbortController();
+    this.running = this.refresh(false, this.controller.signal);
+    try {
+      const refreshed = await this.running;
+      if (refreshed.length) {
+        this.options.logger?.info({endpoints: refreshed.map(({endpoint}) => endpoint)}, 'Refreshed project configs');
+      }
+    } catch (error) {
+      if (!this.controller.signal.aborted) {
+        this.options.logger?.warn(
+          {error: error instanceof Error ? error.message : String(error), errorType: 'project_refresh_failed'},
+          'Project refresh failed'
+        );
+      }
+    } finally {
+      this.running = undefined;
+    }
+  }
+
+  private projectManager(config: GraphQLProjectConfig): ProjectManager {
+    const {fetch, logger, tracer} = this.options;
+    const graphqlService = new GraphQLService(config, true, undefined, fetch, tracer);
+    return new ProjectManager(graphqlService, this.llmConfig, logger, this.options);
+  }
+}
@@ -0,0 +1,244 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {mkdir, readFile, writeFile} from 'node:fs/promises';
+import {dirname} from 'node:path';
+import type {CallbackManagerForLLMRun} from '@langchain/core/callbacks/manager';
+import type {BaseLanguageModelInput} from '@langchain/core/language_models/base';
+import {BaseChatModel, type BindToolsInput} from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  AIMessageChunk,
+  type AIMessageFields,
+  type BaseMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+  type StoredMessage,
+} from '@langchain/core/messages';
+import {ChatGenerationChunk, type ChatResult} from '@langchain/core/outputs';
+import type {Runnable} from '@langchain/core/runnables';
+import type {FetchFn} from './types.js';
+
+export type RecordedFetch = {
+  request: {method: string; url: string; body?: string};
+  // Either the response or the network error the request failed with
+  response?: {status: number; statusText: string; headers: Record<string, string>; body: string};
+  error?: string;
+};
+
+// LLM responses, GraphQL responses and IPFS fetches captured from one run
+export type Cassette = {
+  fetches: RecordedFetch[];
+  llm: StoredMessage[];
+};
+
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteHandle = {
+  // Pass as GraphQLAgentConfig.fetch and to initializeProjectConfig
+  fetch: FetchFn;
+  // Pass as GraphQLAgentConfig.llm and to initializeProjectConfig
+  llm: BaseChatModel;
+  // Writes the recorded cassette, does nothing when replaying
+  save(): Promise<void>;
+};
+
+// Only the headers the agent reads are recorded, this keeps cookies and tokens out of fixtures
+const RECORDED_HEADERS = ['content-type', 'location'];
+
+function requestKey(method: string, url: string, body?: string): string {
+  return `${method.toUpperCase()} ${url}\n${body ?? ''}`;
+}
+
+function describeRequest(input: Parameters<FetchFn>[0], init?: RequestInit): RecordedFetch['request'] {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+  const request: RecordedFetch['request'] = {method, url};
+  if (typeof init?.body === 'string') {
+    request.body = init.body;
+  }
+  return request;
+}
+
+/**
+ * Wraps fetch so every request and its response are appended to the cassette.
+ * Request headers are never recorded.
+ */
+export function createRecordingFetch(cassette: Cassette, fetchFn: FetchFn = fetch): FetchFn {
+  return async (input, init) => {
+    const request = describeRequest(input, init);
+    try {
+      const response = await fetchFn(input, init);
+      const headers: Record<string, string> = {};
+      for (const name of RECORDED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) {
+          headers[name] = value;
+        }
+      }
+      const body = await response.clone().text();
+      cassette.fetches.push({
+        request,
+        response: {status: response.status, statusText: response.statusText, headers, body},
+      });
+      return response;
+    } catch (error) {
+      // Cancelled requests depend on timing, replaying them would not be deterministic
+      if (!init?.signal?.aborted) {
+        cassette.fetches.push({request, error: error instanceof Error ? error.message : String(error)});
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Serves recorded responses by method, URL and body. Repeated requests get their recorded responses in order,
+ * the last one is reused once they run out. Requests that were not recorded fail.
+ */
+export function createReplayFetch(cassette: Cassette): FetchFn {
+  const recorded = new Map<string, RecordedFetch[]>();
+  for (const entry of cassette.fetches) {
+    const key = requestKey(entry.request.method, entry.request.url, entry.request.body);
+    recorded.set(key, [...(recorded.get(key) ?? []), entry]);
+  }
+
+  return async (input, init) => {
+    init?.signal?.throwIfAborted();
+    const {body, method, url} = describeRequest(input, init);
+    const entries = recorded.get(requestKey(method, url, body));
+    const entry = entries && entries.length > 1 ? entries.shift() : entries?.[0];
+    if (!entry) {
+      throw new Error(`No recorded response for ${method} ${url}`);
+    }
+    if (!entry.response) {
+      // fetch reports network errors as TypeError
+      throw new TypeError(entry.error ?? 'fetch failed');
+    }
+    const {body: responseBody, headers, status, statusText} = entry.response;
+    return Promise.resolve(new Response(status === 204 ? null : responseBody, {status, statusText, headers}));
+  };
+}
+
+/**
+ * Chat model that forwards to another model and appends every response to the cassette.
+ * Tools bound to it are bound to the underlying model.
+ */
+export class RecordingChatModel extends BaseChatModel {
+  constructor(
+    private readonly model: BaseChatModel,
+    private readonly cassette: Cassette,
+    private readonly boundModel?: Runnable<BaseLanguageModelInput, AIMessageChunk>
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'recording';
+  }
+
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<this['ParsedCallOptions']>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+    if (!this.model.bindTools) {
+      throw new Error(`Chat model ${this.model.getName()} does not support tool calling.`);
+    }
+    return new RecordingChatModel(this.model, this.cassette, this.model.bindTools(tools, kwargs));
+  }
+
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+    const model = this.boundModel ?? this.model;
+    const message = await model.invoke(messages, options.signal ? {signal: options.signal} : {});
+    const [stored] = mapChatMessagesToStoredMessages([message]);
+    if (stored) {
+      this.cassette.llm.push(stored);
+    }
+    return {generations: [{message, text: message.text}]};
+  }
+}
+
+/**
+ * Chat model that answers with the recorded responses in order, whatever it is asked.
+ * Bound tools are ignored, the recorded tool calls are returned as they were.
+ */
+export class ReplayChatModel extends BaseChatModel {
+  private readonly responses: BaseMessage[];
+  private position = 0;
+
+  constructor(cassette: Cassette) {
+    super({});
+    this.responses = mapStoredMessagesToChatMessages(cassette.llm);
+  }
+
+  _llmType(): string {
+    return 'replay';
+  }
+
+  override bindTools(): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+    return this as Runnable<BaseLanguageModelInput, AIMessageChunk>;
+  }
+
+  // Token usage and model name are replayed as well, so usage accounting works offline
+  private next(): AIMessageFields {
+    const response = this.responses[this.position] as AIMessage | undefined;
+    if (!response) {
+      throw new Error(`Cassette has no more recorded LLM responses (${this.responses.length} replayed)`);
+    }
+    this.position++;
+    const {content, response_metadata, tool_calls, usage_metadata} = response;
+    return {content, tool_calls: tool_calls ?? [], response_metadata, ...(usage_metadata ? {usage_metadata} : {})};
+  }
+
+  async _generate(): Promise<ChatResult> {
+    const message = new AIMessage(this.next());
+    return Promise.resolve({generations: [{message, text: message.text}]});
+  }
+
+  // Replayed as a single chunk so streaming callers still get token events
+  async *_streamResponseChunks(
+    _messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = new AIMessageChunk(this.next());
+    const chunk = new ChatGenerationChunk({message, text: message.text});
+    await runManager?.handleLLMNewToken(chunk.text, undefined, undefined, undefined, undefined, {chunk});
+    yield chunk;
+  }
+}
+
+export async function loadCassette(path: string): Promise<Cassette> {
+  return JSON.parse(await readFile(path, 'utf-8')) as Cassette;
+}
+
+export async function saveCassette(path: string, cassette: Cassette): Promise<void> {
+  await mkdir(dirname(path), {recursive: true});
+  await writeFile(path, `${JSON.stringify(cassette, null, 2)}\n`);
+}
+
+/**
+ * Opens a fixture file for an offline test run.
+ * In record mode requests go to the real endpoints and `model`, and `save()` writes them to `path`.
+ * In replay mode everything is served from `path` and nothing leaves the process.
+ */
+export async function openCassette(path: string, mode: CassetteMode, model?: BaseChatModel): Promise<CassetteHandle> {
+  if (mode === 'replay') {
+    const cassette = await loadCassette(path);
+    return {
+      fetch: createReplayFetch(cassette),
+      llm: new ReplayChatModel(cassette),
+      save: async () => Promise.resolve(),
+    };
+  }
+
+  if (!model) {
+    throw new Error('Recording a cassette requires the chat model to record.');
+  }
+  const cassette: Cassette = {fetches: [], llm: []};
+  return {
+    fetch: createRecordingFetch(cassette),
+    llm: new RecordingChatModel(model, cassette),
+    save: async () => saveCassette(path, cassette),
+  };
+}
@@ -0,0 +1,106 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {createHash} from 'node:crypto';
+import {Kind, parse, print} from 'graphql';
+import type {GraphQLProjectConfig, GraphQLResponseCacheOptions} from './types.js';
+
+export const DEFAULT_RESPONSE_TTL_MS = 30 * 1000;
+export const DEFAULT_MAX_CACHED_RESPONSES = 1000;
+
+type CachedResponse = {
+  response: unknown;
+  expiresAt: number;
+  // Indexed block height when the response was fetched, unset when it couldn't be read
+  height?: number | undefined;
+};
+
+// Object keys are sorted so variables in a different order share an entry
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Caches GraphQL query responses by endpoint, normalized query and variables, share one cache between services.
+ * Only successful queries are cached, mutations, subscriptions and responses with errors always go to the endpoint.
+ * Responses are copied in and out, so callers changing a response don't change the cache.
+ */
+export class GraphQLResponseCache {
+  private readonly entries = new Map<string, CachedResponse>();
+
+  constructor(private readonly options: GraphQLResponseCacheOptions = {}) {}
+
+  get blockAware(): boolean {
+    return this.options.blockAware ?? false;
+  }
+
+  // Undefined when the query can't be cached, formatting and comments don't change the key
+  key(project: GraphQLProjectConfig, query: string, variables?: Record<string, unknown>): string | undefined {
+    let document;
+    try {
+      document = parse(query);
+    } catch {
+      return undefined;
+    }
+    const readOnly = document.definitions.every(
+      (definition) => definition.kind !== Kind.OPERATION_DEFINITION || definition.operation === 'query'
+    );
+    if (!readOnly) {
+      return undefined;
+    }
+    // The authorization can limit what the endpoint returns, so it is part of the key
+    return createHash('sha256')
+      .update(
+        [project.endpoint, project.authorization ?? '', print(document), stableStringify(variables ?? {})].join('\0')
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Returns the cached response, unless it expired or, with `blockAware`, the indexer processed a newer block since.
+   * When the current height is unknown the response is served until it expires.
+   */
+  get(key: string, height?: number): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    const behind = height !== undefined && entry.height !== undefined && height > entry.height;
+    if (entry.expiresAt <= Date.now() || behind) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.response);
+  }
+
+  set(key: string, project: GraphQLProjectConfig, response: unknown, height?: number): void {
+    const {ttlMs = DEFAULT_RESPONSE_TTL_MS} = this.options;
+    const ttl = typeof ttlMs === 'function' ? ttlMs(project) : ttlMs;
+    if (ttl <= 0) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, {response: structuredClone(response), expiresAt: Date.now() + ttl, height});
+    // Maps keep insertion order, the first entry is the oldest
+    const maxEntries = this.options.maxEntries ?? DEFAULT_MAX_CACHED_RESPONSES;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
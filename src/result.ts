@@ -0,0 +1,102 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {type BaseMessage, isAIMessage, isToolMessage} from '@langchain/core/messages';
+import type {GraphQLQueryArtifact, GraphQLToolCall, LLMUsage, StructuredAnswer} from './types.js';
+
+export const NO_RESPONSE_MESSAGE = 'Agent completed without producing a final response.';
+
+export type AgentResult = {
+  messages?: BaseMessage[];
+  output?: string;
+};
+
+type ContentEntry = {
+  text?: string;
+  [key: string]: unknown;
+};
+
+export function extractText(result: AgentResult): string | null {
+  if (!result) {
+    return null;
+  }
+  if (Array.isArray(result.messages)) {
+    const msgs = result.messages as BaseMessage[];
+    const aiMessages = msgs.filter((msg) => isAIMessage(msg));
+
+    if (aiMessages.length > 0) {
+      const last = aiMessages[aiMessages.length - 1];
+      if (typeof last?.content === 'string') {
+        return last.content;
+      }
+      if (Array.isArray(last?.content)) {
+        return last.content
+          .map((entry: ContentEntry) => (entry && typeof entry.text === 'string' ? entry.text : ''))
+          .join('\n');
+      }
+    }
+  }
+
+  if (typeof result.output === 'string') {
+    return result.output;
+  }
+
+  return null;
+}
+
+export function isQueryArtifact(artifact: unknown): artifact is GraphQLQueryArtifact {
+  return (
+    !!artifact &&
+    typeof artifact === 'object' &&
+    typeof (artifact as GraphQLQueryArtifact).query === 'string' &&
+    typeof (artifact as GraphQLQueryArtifact).ok === 'boolean'
+  );
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Builds the structured answer from the messages produced by one run.
+ * @param result - the final agent state
+ * @param inputCount - number of messages sent to the agent, the run's own messages follow them
+ * @param declineMessage - the message the agent was told to answer unrelated requests with
+ * @param usage - token usage of the run
+ * @param partial - the tool call budget or deadline ran out before the agent finished
+ */
+export function buildStructuredAnswer(
+  result: AgentResult,
+  inputCount: number,
+  declineMessage: string,
+  usage: LLMUsage,
+  partial = false
+): StructuredAnswer {
+  const answer = extractText(result) || NO_RESPONSE_MESSAGE;
+  const messages = (result?.messages ?? []).slice(inputCount);
+
+  const toolCalls: GraphQLToolCall[] = [];
+  const queries: StructuredAnswer['queries'] = [];
+  let data: unknown = null;
+
+  for (const msg of messages) {
+    if (isAIMessage(msg)) {
+      for (const call of msg.tool_calls ?? []) {
+        toolCalls.push({id: call.id, name: call.name, args: call.args});
+      }
+    } else if (isToolMessage(msg) && isQueryArtifact(msg.artifact)) {
+      const {data: queryData, ...record} = msg.artifact;
+      queries.push(record);
+      if (record.ok) {
+        data = queryData;
+      }
+    }
+  }
+
+  // The prompt tells the model to answer with the decline message for unrelated requests
+  const declined = queries.length === 0 && !!declineMessage && normalize(answer).includes(normalize(declineMessage));
+  // Without any successful query an answer ending in a question means the agent is waiting on the user
+  const needsUserInput = !declined && !queries.some((q) => q.ok) && /\?\s*$/.test(answer);
+
+  return {answer, queries, data, toolCalls, declined, needsUserInput, partial, cached: false, usage};
+}
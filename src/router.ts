@@ -0,0 +1,77 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {Logger} from 'pino';
+import {createAgentRunner} from './agent.js';
+import {DEFAULT_MAX_TOOL_CALLS} from './budget.js';
+import {GraphQLService} from './graphql.service.js';
+import {buildRouterSystemPrompt, type RoutedProject} from './prompts.js';
+import {createGraphQLTools} from './tools/index.js';
+import type {GraphQLAgent, GraphQLAgentConfig, GraphQLProjectConfig} from './types.js';
+
+const ROUTER_DECLINE_MESSAGE = 'None of the available projects can answer this question.';
+
+// Tool names only allow [a-zA-Z0-9_-] and are limited to 64 chars, leave room for the tool suffix
+function toNamespace(config: GraphQLProjectConfig, taken: Set<string>): string {
+  const base =
+    config.domainName
+      ?.toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 32) || 'project';
+
+  let namespace = base;
+  for (let i = 2; taken.has(namespace); i++) {
+    namespace = `${base}_${i}`;
+  }
+  taken.add(namespace);
+  return namespace;
+}
+
+export function createRouterProjects(projects: GraphQLProjectConfig[]): RoutedProject[] {
+  const taken = new Set<string>();
+  return projects.map((config) => ({namespace: toNamespace(config, taken), config}));
+}
+
+/**
+ * Creates an agent that routes each question to one or more projects.
+ * Every project gets its own namespaced tools (e.g. `dex__graphql_query_validator`) bound to its endpoint,
+ * the model picks the project(s) from their domain capabilities and can combine results across endpoints.
+ */
+export function createRouterAgent(
+  projects: GraphQLProjectConfig[],
+  agentConfig: GraphQLAgentConfig,
+  logger?: Logger
+): GraphQLAgent {
+  if (projects.length === 0) {
+    throw new Error('Router agent requires at least one project.');
+  }
+
+  const routed = createRouterProjects(projects);
+  const tools = routed.flatMap(({config, namespace}) =>
+    createGraphQLTools(
+      new GraphQLService(config, true, logger, agentConfig.fetch, agentConfig.tracer, agentConfig.responseCache),
+      config,
+      logger,
+      namespace,
+      agentConfig.tracer,
+      agentConfig.sanitization
+    )
+  );
+
+  return createAgentRunner(agentConfig, {
+    tools,
+    systemPrompt: (maxToolCalls, locale) =>
+      buildRouterSystemPrompt(routed, ROUTER_DECLINE_MESSAGE, agentConfig.verbose, maxToolCalls, locale),
+    declineMessage: ROUTER_DECLINE_MESSAGE,
+    // Answers spanning two projects need a schema lookup and a query for each of them
+    defaultMaxToolCalls: DEFAULT_MAX_TOOL_CALLS * Math.min(projects.length, 2),
+    spanAttributes: {'graphql_agent.projects': routed.map(({namespace}) => namespace)},
+    scope: {
+      domainName: routed.map(({config}) => config.domainName).join(', '),
+      capabilities: routed.flatMap(({config}) =>
+        config.domainCapabilities.map((capability) => `${config.domainName}: ${capability}`)
+      ),
+    },
+  });
+}
@@ -0,0 +1,88 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {SanitizationOptions, SuspiciousValue} from './types.js';
+
+export const DEFAULT_MAX_STRING_LENGTH = 1000;
+export const UNTRUSTED_DATA_TAG = 'untrusted_data';
+
+// Phrases aimed at the model rather than at a reader of the data, checked case-insensitively
+const INJECTION_PATTERNS: Array<[name: string, pattern: RegExp]> = [
+  ['ignore_instructions', /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|prompts?|rules|context)\b/i],
+  ['new_instructions', /\b(new|updated|real|actual)\s+(system\s+)?instructions?\b/i],
+  ['system_prompt', /\bsystem\s+prompt\b/i],
+  ['role_change', /\byou\s+are\s+now\b|\bact\s+as\s+(an?\s+)?(assistant|ai|system|admin)/i],
+  ['chat_markup', /<\|?\/?(system|assistant|user|im_start|im_end)\|?>|\[\/?INST\]/i],
+  ['tool_call', /\b(call|invoke|use)\s+the\s+\w+\s+tool\b/i],
+];
+
+// Zero-width and bidi control characters can hide text from reviewers while the model still reads it
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+// ASCII control characters except tab, newline and carriage return
+function isControlCharacter(code: number): boolean {
+  return (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f;
+}
+
+function stripControlCharacters(value: string): string {
+  return Array.from(value)
+    .filter((char) => !isControlCharacter(char.charCodeAt(0)))
+    .join('');
+}
+
+export function detectInjection(value: string): string | undefined {
+  return INJECTION_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0];
+}
+
+/**
+ * Cleans the strings of a query result before it is shown to the LLM: invisible and control characters are removed,
+ * long strings are truncated and strings that look like prompt injection are redacted (or only flagged).
+ * Returns the cleaned copy and the flagged values, the input is not modified.
+ */
+export function sanitizeData(
+  data: unknown,
+  options: SanitizationOptions = {}
+): {data: unknown; suspicious: SuspiciousValue[]} {
+  const maxStringLength = options.maxStringLength ?? DEFAULT_MAX_STRING_LENGTH;
+  const redact = options.redact ?? true;
+  const suspicious: SuspiciousValue[] = [];
+
+  const visit = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      const cleaned = stripControlCharacters(value.replace(INVISIBLE_CHARACTERS, ''));
+      const pattern = detectInjection(cleaned);
+      if (pattern) {
+        suspicious.push({path, pattern});
+        if (redact) {
+          return `[redacted: possible prompt injection, ${cleaned.length} chars]`;
+        }
+      }
+      return cleaned.length > maxStringLength
+        ? `${cleaned.slice(0, maxStringLength)}… [truncated ${cleaned.length - maxStringLength} chars]`
+        : cleaned;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => visit(item, `${path}[${index}]`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          visit(item, path ? `${path}.${key}` : key),
+        ])
+      );
+    }
+    return value;
+  };
+
+  return {data: visit(data, ''), suspicious};
+}
+
+/**
+ * Formats data for a tool result, fenced so the model can tell indexed data from instructions.
+ * Angle brackets are escaped, so a value can't close the fence or open chat markup.
+ */
+export function fenceUntrustedData(data: unknown): string {
+  const json = JSON.stringify(data, null, 2).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+  return `<${UNTRUSTED_DATA_TAG}>\n${json}\n</${UNTRUSTED_DATA_TAG}>`;
+}
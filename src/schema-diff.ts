@@ -0,0 +1,85 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {Kind, parse, print} from 'graphql';
+import type {SchemaDiff} from './types.js';
+
+// Field types by entity. Entity schemas use directives and scalars without definitions, so they are only parsed
+function entityFields(schemaContent: string): Map<string, Map<string, string>> {
+  const entities = new Map<string, Map<string, string>>();
+  if (!schemaContent.trim()) {
+    return entities;
+  }
+  for (const definition of parse(schemaContent).definitions) {
+    if (
+      definition.kind !== Kind.OBJECT_TYPE_DEFINITION &&
+      definition.kind !== Kind.INTERFACE_TYPE_DEFINITION &&
+      definition.kind !== Kind.OBJECT_TYPE_EXTENSION
+    ) {
+      continue;
+    }
+    const fields = entities.get(definition.name.value) ?? new Map<string, string>();
+    for (const field of definition.fields ?? []) {
+      fields.set(field.name.value, print(field.type));
+    }
+    entities.set(definition.name.value, fields);
+  }
+  return entities;
+}
+
+/**
+ * Entities and fields added, removed or retyped between two schemas.
+ * Fields of added or removed entities are not listed separately.
+ */
+export function diffSchemas(previous: string, next: string): SchemaDiff {
+  const before = entityFields(previous);
+  const after = entityFields(next);
+  const diff: SchemaDiff = {
+    addedEntities: [...after.keys()].filter((entity) => !before.has(entity)),
+    removedEntities: [...before.keys()].filter((entity) => !after.has(entity)),
+    addedFields: [],
+    removedFields: [],
+    retypedFields: [],
+  };
+
+  for (const [entity, fields] of after) {
+    const previousFields = before.get(entity);
+    if (!previousFields) {
+      continue;
+    }
+    for (const [field, type] of fields) {
+      const previousType = previousFields.get(field);
+      if (previousType === undefined) {
+        diff.addedFields.push({entity, field, type});
+      } else if (previousType !== type) {
+        diff.retypedFields.push({entity, field, type, previousType});
+      }
+    }
+    for (const [field, previousType] of previousFields) {
+      if (!fields.has(field)) {
+        diff.removedFields.push({entity, field, previousType});
+      }
+    }
+  }
+  return diff;
+}
+
+export function isEmptySchemaDiff(diff: SchemaDiff): boolean {
+  return (
+    !diff.addedEntities.length &&
+    !diff.removedEntities.length &&
+    !diff.addedFields.length &&
+    !diff.removedFields.length &&
+    !diff.retypedFields.length
+  );
+}
+
+// Entities or fields coming or going can change what the project answers, a retyped field alone doesn't
+export function schemaDiffNeedsAnalysis(diff: SchemaDiff): boolean {
+  return (
+    diff.addedEntities.length > 0 ||
+    diff.removedEntities.length > 0 ||
+    diff.addedFields.length > 0 ||
+    diff.removedFields.length > 0
+  );
+}
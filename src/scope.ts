@@ -0,0 +1,99 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {BaseChatModel} from '@langchain/core/language_models/chat_models';
+import {HumanMessage, SystemMessage} from '@langchain/core/messages';
+import {extractJSON} from './llm.js';
+import {languageName} from './locale.js';
+import type {ScopeClassification} from './types.js';
+
+export const DEFAULT_SCOPE_THRESHOLD = 0.7;
+
+const SCOPES: ReadonlyArray<ScopeClassification['scope']> = ['in_scope', 'out_of_scope', 'needs_clarification'];
+
+// What the classifier compares questions against
+export type ProjectScope = {
+  domainName: string;
+  capabilities: string[];
+};
+
+function buildScopePrompt(question: string, scope: ProjectScope, locale?: string): string {
+  return `Classify whether a question can be answered with the data of this GraphQL indexing project.
+
+PROJECT: ${scope.domainName}
+CAPABILITIES:
+${scope.capabilities.map((capability) => `- ${capability}`).join('\n')}
+
+QUESTION:
+${question}
+
+Respond with JSON matching:
+{
+  "scope": "in_scope" | "out_of_scope" | "needs_clarification",
+  "capability": "The capability from the list the question matches, null when none does",
+  "confidence": 0.0-1.0,
+  "clarification": "A short question asking for the missing details, only for needs_clarification"
+}
+
+Use needs_clarification only when the question could be in scope but is too vague to query, e.g. it doesn't say which entity or time range.${
+    locale ? `\nWrite the clarification in ${languageName(locale)}.` : ''
+  }`;
+}
+
+export function parseScopeClassification(text: string, scope: ProjectScope): ScopeClassification {
+  const parsed = JSON.parse(extractJSON(text)) as Record<string, unknown>;
+  if (!parsed || typeof parsed !== 'object' || !SCOPES.includes(parsed.scope as ScopeClassification['scope'])) {
+    throw new Error('Invalid scope classification');
+  }
+
+  const confidence = Number(parsed.confidence);
+  // Only capabilities from the project count, the model sometimes paraphrases them
+  const capability = scope.capabilities.find(
+    (item) => typeof parsed.capability === 'string' && item.toLowerCase() === parsed.capability.trim().toLowerCase()
+  );
+  const clarification = typeof parsed.clarification === 'string' ? parsed.clarification.trim() : '';
+  return {
+    scope: parsed.scope as ScopeClassification['scope'],
+    confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0,
+    ...(capability ? {capability} : {}),
+    ...(parsed.scope === 'needs_clarification' && clarification ? {clarification} : {}),
+  };
+}
+
+// A single tool-free LLM call, much cheaper than a run of the agent with its system prompt and tools
+export async function classifyScope(
+  model: BaseChatModel,
+  question: string,
+  scope: ProjectScope,
+  signal?: AbortSignal,
+  callbacks: BaseCallbackHandler[] = [],
+  locale?: string
+): Promise<ScopeClassification> {
+  const response = await model.invoke(
+    [
+      new SystemMessage('You classify questions for a data assistant and respond with concise JSON.'),
+      new HumanMessage(buildScopePrompt(question, scope, locale)),
+    ],
+    {...(signal ? {signal} : {}), callbacks}
+  );
+  return parseScopeClassification(response.text || '{}', scope);
+}
+
+/**
+ * The answer to return without running the agent: the decline message for out of scope questions,
+ * or the clarifying question. Undefined when the agent should run, including below the confidence threshold.
+ */
+export function preflightAnswer(
+  classification: ScopeClassification | undefined,
+  declineMessage: string,
+  threshold = DEFAULT_SCOPE_THRESHOLD
+): string | undefined {
+  if (!classification || classification.confidence < threshold) {
+    return undefined;
+  }
+  if (classification.scope === 'out_of_scope') {
+    return declineMessage;
+  }
+  return classification.scope === 'needs_clarification' ? classification.clarification : undefined;
+}
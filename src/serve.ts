@@ -0,0 +1,27 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+// Starts the HTTP server configured from environment variables, see "HTTP Server" in the README
+import {pino} from 'pino';
+import {FilePersistentService, InMemoryPersistentService} from './persistence.js';
+import {createAgentServer} from './server.js';
+
+const logger = pino({level: process.env.LOG_LEVEL ?? 'info'});
+const port = Number(process.env.PORT ?? 8000);
+
+const server = createAgentServer({
+  persistentService: process.env.PROJECTS_FILE
+    ? new FilePersistentService(process.env.PROJECTS_FILE)
+    : new InMemoryPersistentService(),
+  agentConfig: {
+    llm: {model: process.env.LLM_MODEL ?? 'gpt-4o-mini'},
+    verbose: 0,
+    logger,
+    ...(process.env.LOCALE ? {locale: process.env.LOCALE} : {}),
+  },
+  logger,
+  ...(process.env.LANGUAGES ? {languages: process.env.LANGUAGES.split(',').map((language) => language.trim())} : {}),
+  ...(process.env.ALLOW_LOCALHOST === 'true' ? {allowLocalhost: true} : {}),
+});
+
+server.listen(port, () => logger.info({port}, 'GraphQL agent server listening'));
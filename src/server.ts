@@ -0,0 +1,361 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {createServer, type IncomingMessage, type Server} from 'node:http';
+import type {Logger} from 'pino';
+import {
+  parseChatCompletionRequest,
+  respondWithChatCompletion,
+  toModelId,
+  toOpenAIError,
+  toOpenAIModel,
+} from './chat-completions.js';
+import {InMemoryConversationStore} from './conversation.js';
+import {createGraphQLAgent, initializeProjectConfig} from './graphql-agent.js';
+import {GraphQLService} from './graphql.service.js';
+import {
+  abortOnClose,
+  admitStream,
+  DEFAULT_MAX_BODY_BYTES,
+  HttpError,
+  optionalString,
+  quotaError,
+  readJSON,
+  type RequestHandler,
+  requireString,
+  sendEvent,
+  sendJSON,
+  startEventStream,
+} from './http.js';
+import {resolveLocale} from './locale.js';
+import {admitQuestion, DEFAULT_TENANT, isQuotaRejection} from './quota.js';
+import type {
+  ConversationStore,
+  GraphQLAgent,
+  GraphQLAgentConfig,
+  GraphQLProjectConfig,
+  PersistentService,
+  SuggestedQuestionsOptions,
+} from './types.js';
+
+export type AgentServerOptions = {
+  // Stores project analyses, so a registered endpoint is only analyzed again when its CID changes
+  persistentService: PersistentService;
+  // Used for every project, `llm` also runs the project analysis
+  agentConfig: GraphQLAgentConfig;
+  logger?: Logger;
+  // Largest accepted request body, defaults to 1MB
+  maxBodyBytes?: number;
+  // Languages to translate decline messages into when projects are analyzed, e.g. ['zh', 'ja', 'de']
+  languages?: string[];
+  // Tenant key of a request for the quotas of agentConfig.quota, e.g. looked up from an API key header
+  tenant?: (req: IncomingMessage) => string | undefined;
+  // Generates verified starter questions when projects are analyzed, returned on registration
+  suggestedQuestions?: SuggestedQuestionsOptions;
+  // Lets callers register local and private network endpoints, only for servers that aren't exposed (default false)
+  allowLocalhost?: boolean;
+  // Registered projects kept at once, the least recently used one is dropped first (default 100)
+  maxProjects?: number;
+};
+
+const DEFAULT_MAX_PROJECTS = 100;
+
+type Project = {config: GraphQLProjectConfig; agent: GraphQLAgent; model: string};
+
+// Projects are registered per endpoint and credential, so callers never share an agent sending another's credential
+function projectKey(endpoint: string, authorization?: string): string {
+  return JSON.stringify([endpoint, authorization ?? null]);
+}
+
+function readLocale(locale: string): string {
+  try {
+    return resolveLocale(locale);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function describeProject({config, model}: Project) {
+  const {
+    cid,
+    declineMessage,
+    domainCapabilities,
+    domainName,
+    endpoint,
+    lastAnalysisError,
+    lastAnalyzedAt,
+    nodeType,
+    suggestedQuestions,
+  } = config;
+  return {
+    endpoint,
+    model,
+    cid,
+    nodeType,
+    domainName,
+    domainCapabilities,
+    declineMessage,
+    lastAnalyzedAt,
+    lastAnalysisError,
+    suggestedQuestions,
+  };
+}
+
+/**
+ * Request handler exposing the agent over HTTP, for use with `http.createServer` or as middleware.
+ *
+ * - `POST /projects` `{endpoint, authorization?}` registers an endpoint and returns its analysis
+ * - `POST /ask` `{endpoint, authorization?, question, threadId?, locale?}` answers with `{answer}`
+ * - `POST /ask/stream` takes the same body and streams agent events as Server-Sent Events
+ * - `GET /v1/models` and `POST /v1/chat/completions`, an OpenAI compatible API with a model per registered project
+ * - `GET /health`
+ *
+ * Questions are answered by the project registered with the same endpoint and authorization, others get a 404.
+ * Local and private network endpoints, and redirects to them, are rejected unless allowLocalhost is set.
+ * Questions and registrations turned away by the quota of the tenant get a 429 with Retry-After, streamed questions
+ * before the stream starts. The tokens of a project analysis are charged to the tenant that registered it.
+ */
+export function createAgentRequestHandler(options: AgentServerOptions): RequestHandler {
+  const {agentConfig, allowLocalhost = false, languages, logger, persistentService, suggestedQuestions} = options;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const maxProjects = options.maxProjects ?? DEFAULT_MAX_PROJECTS;
+  const {quota} = agentConfig;
+  // One agent per endpoint and credential, so sessions continue across requests
+  const projects = new Map<string, Promise<Project>>();
+  // OpenAI model ids of registered projects, assigned once so they stay stable when a project is registered again
+  const modelIds = new Map<string, string>();
+  const projectsByModel = new Map<string, string>();
+  // Kept when a project is registered again, so its sessions continue with the new agent
+  const conversationStores = new Map<string, ConversationStore>();
+
+  // Charges the tokens of the analysis to the tenant registering the project, on top of the configured callback
+  const usageOf = (tenant: string): GraphQLAgentConfig['usage'] => {
+    if (!quota) {
+      return agentConfig.usage;
+    }
+    return {
+      ...agentConfig.usage,
+      onUsage: (usage, context) => {
+        agentConfig.usage?.onUsage?.(usage, context);
+        quota.recordTokens(tenant, usage.totalTokens).catch((error: unknown) => {
+          logger?.warn({error: error instanceof Error ? error.message : String(error)}, 'Recording tokens failed');
+        });
+      },
+    };
+  };
+
+  const registerProject = async (endpoint: string, tenant: string, authorization?: string): Promise<Project> => {
+    try {
+      new GraphQLService({endpoint} as GraphQLProjectConfig, allowLocalhost).validateEndpoint();
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    const key = projectKey(endpoint, authorization);
+    const usage = usageOf(tenant);
+    const config = await initializeProjectConfig(
+      endpoint,
+      persistentService,
+      agentConfig.llm,
+      authorization ? {Authorization: authorization} : undefined,
+      logger,
+      {
+        ...(agentConfig.fetch ? {fetch: agentConfig.fetch} : {}),
+        ...(usage ? {usage} : {}),
+        ...(agentConfig.tracer ? {tracer: agentConfig.tracer} : {}),
+        allowLocalhost,
+        ...(languages ? {languages} : {}),
+        ...(suggestedQuestions ? {suggestedQuestions} : {}),
+      }
+    );
+    let model = modelIds.get(key);
+    if (!model) {
+      model = toModelId(config, new Set(projectsByModel.keys()));
+      modelIds.set(key, model);
+      projectsByModel.set(model, key);
+    }
+    let store = conversationStores.get(key);
+    if (!store) {
+      store = agentConfig.conversation?.store ?? new InMemoryConversationStore();
+      conversationStores.set(key, store);
+    }
+    const agent = createGraphQLAgent(
+      config,
+      {...agentConfig, allowLocalhost, conversation: {...agentConfig.conversation, store}},
+      logger
+    );
+    return {config, agent, model};
+  };
+
+  const dropProject = (key: string) => {
+    projects.delete(key);
+    conversationStores.delete(key);
+    const model = modelIds.get(key);
+    modelIds.delete(key);
+    if (model) {
+      projectsByModel.delete(model);
+    }
+  };
+
+  // Maps keep insertion order, a project that is used moves to the end so the least recently used comes first
+  const useProject = (key: string) => {
+    const project = projects.get(key);
+    if (project) {
+      projects.delete(key);
+      projects.set(key, project);
+    }
+    return project;
+  };
+
+  // Registers the project again, failed registrations are not kept so the next registration tries again
+  const refreshProject = async (endpoint: string, tenant: string, authorization?: string) => {
+    const key = projectKey(endpoint, authorization);
+    const registration = registerProject(endpoint, tenant, authorization);
+    projects.delete(key);
+    projects.set(key, registration);
+    for (const oldest of projects.keys()) {
+      if (projects.size <= maxProjects) {
+        break;
+      }
+      dropProject(oldest);
+    }
+    registration.then(
+      // Dropped while it was registering, the model id and sessions it just created are dropped too
+      () => !projects.has(key) && dropProject(key),
+      () => projects.get(key) === registration && dropProject(key)
+    );
+    return registration;
+  };
+
+  const getProject = async (endpoint: string, authorization?: string) => {
+    const project = useProject(projectKey(endpoint, authorization));
+    if (!project) {
+      throw new HttpError(404, `The endpoint "${endpoint}" is not registered, register it with POST /projects first`);
+    }
+    return project;
+  };
+
+  const readQuestion = async (req: IncomingMessage) => {
+    const body = await readJSON(req, maxBodyBytes);
+    const threadId = optionalString(body, 'threadId');
+    const locale = optionalString(body, 'locale');
+    const tenant = options.tenant?.(req);
+    const authorization = optionalString(body, 'authorization');
+    return {
+      endpoint: requireString(body, 'endpoint'),
+      ...(authorization ? {authorization} : {}),
+      question: requireString(body, 'question'),
+      options: {
+        ...(threadId ? {threadId} : {}),
+        ...(locale ? {locale: readLocale(locale)} : {}),
+        ...(tenant ? {tenant} : {}),
+      },
+    };
+  };
+
+  const routes: Record<string, RequestHandler> = {
+    'GET /health': async (_req, res) => {
+      sendJSON(res, 200, {status: 'ok'});
+      return Promise.resolve();
+    },
+
+    'POST /projects': async (req, res) => {
+      const body = await readJSON(req, maxBodyBytes);
+      const endpoint = requireString(body, 'endpoint');
+      // Registering can run a project analysis, so it counts against the quota like a question
+      const tenant = options.tenant?.(req) ?? DEFAULT_TENANT;
+      const exceeded = await admitQuestion(quota, tenant, logger);
+      if (exceeded) {
+        throw quotaError(res, exceeded);
+      }
+      const project = await refreshProject(endpoint, tenant, optionalString(body, 'authorization'));
+      sendJSON(res, 200, describeProject(project));
+    },
+
+    'POST /ask': async (req, res) => {
+      const {authorization, endpoint, options: invokeOptions, question} = await readQuestion(req);
+      const {agent} = await getProject(endpoint, authorization);
+      const {answer, quotaExceeded} = await agent.invokeStructured(question, {
+        ...invokeOptions,
+        signal: abortOnClose(res),
+      });
+      if (isQuotaRejection(quotaExceeded)) {
+        throw quotaError(res, quotaExceeded);
+      }
+      sendJSON(res, 200, {answer, ...(invokeOptions.threadId ? {threadId: invokeOptions.threadId} : {})});
+    },
+
+    'POST /ask/stream': async (req, res) => {
+      const {authorization, endpoint, options: invokeOptions, question} = await readQuestion(req);
+      const {agent} = await getProject(endpoint, authorization);
+      const signal = abortOnClose(res);
+      const events = await admitStream(res, agent.stream(question, {...invokeOptions, signal}));
+
+      startEventStream(res);
+      try {
+        for await (const event of events) {
+          sendEvent(res, event.type, event);
+        }
+      } catch (error) {
+        // The status is already sent, so failures are reported as a final error event
+        if (!signal.aborted) {
+          logger?.error({error: error instanceof Error ? error.message : String(error)}, 'Agent stream failed');
+          sendEvent(res, 'error', {error: error instanceof Error ? error.message : String(error)});
+        }
+      }
+      res.end();
+    },
+
+    'GET /v1/models': async (_req, res) => {
+      const registered = await Promise.allSettled(projects.values());
+      const models = registered.flatMap((result) =>
+        result.status === 'fulfilled' ? [toOpenAIModel(result.value.model, result.value.config)] : []
+      );
+      sendJSON(res, 200, {object: 'list', data: models});
+    },
+
+    'POST /v1/chat/completions': async (req, res) => {
+      const request = parseChatCompletionRequest(await readJSON(req, maxBodyBytes));
+      const key = projectsByModel.get(request.model);
+      const project = key ? useProject(key) : undefined;
+      if (!project) {
+        throw new HttpError(
+          404,
+          `The model "${request.model}" does not exist, register its endpoint first`,
+          'model_not_found'
+        );
+      }
+      const {agent} = await project;
+      await respondWithChatCompletion(res, agent, request, abortOnClose(res), options.tenant?.(req));
+    },
+  };
+
+  return async (req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const route = routes[`${req.method} ${path}`];
+    try {
+      if (!route) {
+        throw new HttpError(404, `Not found: ${req.method} ${path}`);
+      }
+      await route(req, res);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 500) {
+        logger?.error({error: message, path}, 'Request failed');
+      }
+      if (res.headersSent) {
+        res.end();
+      } else if (path.startsWith('/v1/')) {
+        sendJSON(res, status, toOpenAIError(status, message, error instanceof HttpError ? error.code : undefined));
+      } else {
+        sendJSON(res, status, {error: message});
+      }
+    }
+  };
+}
+
+// HTTP server for the agent, call `listen(port)` to start it
+export function createAgentServer(options: AgentServerOptions): Server {
+  const handler = createAgentRequestHandler(options);
+  return createServer((req, res) => void handler(req, res));
+}
@@ -0,0 +1,96 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {StreamEvent} from '@langchain/core/tracers/log_stream';
+import type {GraphQLAgentEvent} from './types.js';
+
+type ContentEntry = {
+  text?: string;
+  [key: string]: unknown;
+};
+
+function contentToText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((entry: ContentEntry) => (entry && typeof entry.text === 'string' ? entry.text : '')).join('');
+  }
+  return '';
+}
+
+// Tool inputs arrive either as the parsed args or wrapped in {input: '<json>'} depending on how the tool was called
+function extractQuery(input: unknown): string | undefined {
+  if (!input || typeof input !== 'object') {
+    return undefined;
+  }
+  const record = input as Record<string, unknown>;
+  if (typeof record.query === 'string') {
+    return record.query;
+  }
+  if (typeof record.input === 'string') {
+    try {
+      return extractQuery(JSON.parse(record.input));
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function toolOutputText(output: unknown): string {
+  if (typeof output === 'string') {
+    return output;
+  }
+  if (output && typeof output === 'object' && 'content' in output) {
+    return contentToText((output as {content: unknown}).content);
+  }
+  return '';
+}
+
+// Validation failures from graphql_query_validator are reported as "❌ ... failed" followed by "- <error>" lines
+export function parseValidationFailure(output: string): string[] | undefined {
+  const match = output.match(
+    /^❌ (?:Validation failed|Basic syntax validation failed|Schema validation failed|Query parsing failed):?\s*/
+  );
+  if (!match) {
+    return undefined;
+  }
+  const rest = output.slice(match[0].length);
+  const errors = rest
+    .split('\n')
+    .map((line) => line.replace(/^- /, '').trim())
+    .filter((line) => line.length > 0);
+  return errors.length > 0 ? errors : [rest.trim()];
+}
+
+/**
+ * Maps a LangGraph stream event to the agent events exposed to callers.
+ * Events that are not relevant to the caller (chain starts, prompt formatting, ...) map to nothing.
+ */
+export function toAgentEvents(event: StreamEvent): GraphQLAgentEvent[] {
+  switch (event.event) {
+    case 'on_chat_model_stream': {
+      const content = contentToText(event.data.chunk?.content);
+      return content ? [{type: 'token', content}] : [];
+    }
+    case 'on_chat_model_end': {
+      const output = event.data.output as {tool_calls?: unknown[]} | undefined;
+      return [{type: 'step_end', toolCalls: !!output?.tool_calls?.length}];
+    }
+    case 'on_tool_start':
+      return [{type: 'tool_start', tool: event.name, query: extractQuery(event.data.input)}];
+    case 'on_tool_end': {
+      const query = extractQuery(event.data.input);
+      const output = toolOutputText(event.data.output);
+      const events: GraphQLAgentEvent[] = [{type: 'tool_end', tool: event.name, query, output}];
+      const errors = parseValidationFailure(output);
+      if (errors) {
+        events.push({type: 'validation_failed', query, errors});
+      }
+      return events;
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,92 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import type {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import {HumanMessage, SystemMessage} from '@langchain/core/messages';
+import type {Logger} from 'pino';
+import type {GraphQLService} from './graphql.service.js';
+import {resolveLLMProvider} from './llm.js';
+import {createGraphQLSchemaInfoTool} from './tools/graphql-schema-info.tool.js';
+import type {GraphQLAgentConfig, GraphQLProjectConfig, SuggestedQuestionsOptions} from './types.js';
+
+export const DEFAULT_SUGGESTED_QUESTIONS = 5;
+
+const QUERY_PROMPT = `You write the GraphQL query that answers the user's question, following the schema and query patterns below.
+Reply with a single query and nothing else.`;
+
+// The query of a reply, with or without a code fence around it
+function extractQuery(reply: string): string {
+  const fenced = reply.match(/```(?:graphql|gql)?\s*([\s\S]*?)```/i);
+  return (fenced?.[1] ?? reply).trim();
+}
+
+// Whether a response holds at least one value, an empty connection or list doesn't count.
+// Numbers are left out, counts like totalCount are set even when nothing matched
+function hasData(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasData);
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).some(([key, item]) => key !== '__typename' && hasData(item));
+  }
+  return value !== null && value !== undefined && typeof value !== 'number';
+}
+
+/**
+ * Keeps the questions the agent model writes a query for that passes validation against the endpoint's schema,
+ * and with requireData only those whose query also returns data. Questions are checked one at a time.
+ */
+export async function verifySuggestedQuestions(
+  questions: string[],
+  config: GraphQLProjectConfig,
+  graphqlService: GraphQLService,
+  llmConfig: GraphQLAgentConfig['llm'],
+  options: SuggestedQuestionsOptions = {},
+  signal?: AbortSignal,
+  callbacks: BaseCallbackHandler[] = [],
+  logger?: Logger
+): Promise<string[]> {
+  const model = resolveLLMProvider(llmConfig).getAgentModel();
+  // The same schema and query patterns the agent gets from its schema info tool
+  const schemaInfo = (await createGraphQLSchemaInfoTool(config).invoke({})) as string;
+  const verified: string[] = [];
+
+  for (const question of questions) {
+    try {
+      const reply = await model.invoke(
+        [new SystemMessage(`${QUERY_PROMPT}\n\n${schemaInfo}`), new HumanMessage(question)],
+        {
+          ...(signal ? {signal} : {}),
+          callbacks,
+        }
+      );
+      const query = extractQuery(typeof reply.content === 'string' ? reply.content : reply.text);
+
+      const errors = await graphqlService.validate(query, signal);
+      if (errors.length) {
+        logger?.debug({question, errors}, 'Dropped suggested question, its query is invalid');
+        continue;
+      }
+      if (options.requireData) {
+        const response = (await graphqlService.execute(query, undefined, signal)) as {
+          data?: unknown;
+          errors?: unknown[];
+        };
+        if (response?.errors?.length || !hasData(response?.data)) {
+          logger?.debug({question}, 'Dropped suggested question, its query returned no data');
+          continue;
+        }
+      }
+      verified.push(question);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger?.debug(
+        {question, error: error instanceof Error ? error.message : String(error)},
+        'Dropped suggested question, verification failed'
+      );
+    }
+  }
+  return verified;
+}
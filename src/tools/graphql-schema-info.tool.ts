@@ -32,7 +32,10 @@ export function createGraphQLSchemaInfoTool(config: GraphQLProjectConfig, logger
 
         const schemaContent = config.schemaContent;
 
-        if (config.nodeType === GraphqlProvider.THE_GRAPH) {
+        if (config.schemaSource === 'introspection') {
+          logger?.debug(`Using introspection schema generation`);
+          return generateIntrospectionSchemaInfo(schemaContent, config.nodeType);
+        } else if (config.nodeType === GraphqlProvider.THE_GRAPH) {
           logger?.debug(`Using The Graph protocol schema generation`);
           const result = generateTheGraphSchemaInfo(schemaContent);
           logger?.info({resultLength: result.length}, `Successfully generated The Graph schema info`);
@@ -54,6 +57,63 @@ export function createGraphQLSchemaInfoTool(config: GraphQLProjectConfig, logger
   });
 }
 
+// Query conventions by provider, the derived schema leaves out the filter and ordering input types they describe
+const PROVIDER_QUERY_PATTERNS: Partial<Record<GraphqlProvider, string>> = {
+  [GraphqlProvider.HASURA]: `HASURA QUERY PATTERNS:
+- List: transfers(limit: 10, offset: 0, order_by: {amount: desc}, where: {amount: {_gt: "100"}}) { id amount }
+- Single row by primary key: transfers_by_pk(id: "0x1") { id amount }
+- Counts and totals: transfers_aggregate(where: {...}) { aggregate { count sum { amount } max { amount } } }
+- Filter operators: _eq, _neq, _gt, _gte, _lt, _lte, _in, _nin, _like, _ilike, _is_null, combine with _and, _or, _not
+- Relationships filter by nesting: where: {account: {address: {_eq: "0x1"}}}`,
+  [GraphqlProvider.POSTGRAPHILE]: `POSTGRAPHILE QUERY PATTERNS:
+- List: transfers(first: 10, offset: 0, orderBy: [AMOUNT_DESC], filter: {amount: {greaterThan: "100"}}) { nodes { id amount } totalCount }
+- Single row: transfer(id: "0x1") { id amount }, or transferByNodeId(nodeId: "...")
+- orderBy values are UPPER_SNAKE_CASE field names with _ASC or _DESC
+- Filter operators: equalTo, notEqualTo, greaterThan, greaterThanOrEqualTo, lessThan, lessThanOrEqualTo, in, notIn, includes, startsWith, isNull, combine with and, or, not
+- If the list type has aggregates: transfers { aggregates { sum { amount } } }, or groupedAggregates(groupBy: [FIELD]) { keys sum { amount } }`,
+  [GraphqlProvider.SUBQL]: `SUBQUERY (POSTGRAPHILE) QUERY PATTERNS:
+- List: transfers(first: 10, offset: 0, orderBy: [AMOUNT_DESC], filter: {amount: {greaterThan: "100"}}) { nodes { id amount } totalCount }
+- Single row: transfer(id: "0x1") { id amount }
+- orderBy values are UPPER_SNAKE_CASE field names with _ASC or _DESC
+- Filter operators: equalTo, notEqualTo, greaterThan, greaterThanOrEqualTo, lessThan, lessThanOrEqualTo, in, notIn, includes, startsWith, isNull, combine with and, or, not
+- Aggregates: transfers { aggregates { sum { amount } } }, or groupedAggregates(groupBy: [FIELD]) { keys sum { amount } }`,
+  [GraphqlProvider.THE_GRAPH]: `THE GRAPH QUERY PATTERNS:
+- List: transfers(first: 10, skip: 0, orderBy: amount, orderDirection: desc, where: {amount_gt: "100"}) { id amount }
+- Single entity: transfer(id: "0x1") { id amount }
+- Filters are <field>_<op>: amount_gt, amount_lte, id_in, name_contains, name_starts_with, combine with and, or
+- Numbers of BigInt and BigDecimal fields are passed as strings`,
+};
+
+function generateIntrospectionSchemaInfo(schemaContent: string, nodeType: GraphqlProvider): string {
+  const patterns =
+    PROVIDER_QUERY_PATTERNS[nodeType] ??
+    `QUERY PATTERNS:
+- The API follows no known conventions, use the root queries and argument names of type Query exactly as listed
+- Argument types not shown in the schema are inputs, send the query and follow the validation errors for their shape`;
+
+  return `📖 GRAPHQL API SCHEMA & RULES (derived from introspection, provider: ${nodeType}):
+
+🔍 SCHEMA:
+${schemaContent}
+
+📋 READING THE SCHEMA:
+- type Query lists every root query with its arguments, every query starts from one of these fields
+- The other types are the objects the API returns, scalar and enum fields are selected directly
+- Fields of an object type need a subfield selection: owner { id }
+- Fields marked @connection return a paginated list, select its items as described in the patterns below
+- Filter, ordering and pagination input types are left out, their names in the arguments hint at their shape
+
+📖 ${patterns}
+
+🚨 CRITICAL AGENT RULES:
+1. ALWAYS validate queries with graphql_query_validator, it validates and executes in one step
+2. For missing user info ("my rewards"), ASK for wallet/ID - NEVER fabricate data
+3. Select only the fields needed and always limit list sizes
+4. Pass queries as plain text (no backticks/quotes)
+
+DO NOT call graphql_schema_info again - everything needed is above.`;
+}
+
 function generateTheGraphSchemaInfo(schemaContent: string): string {
   return `📖 THE GRAPH PROTOCOL SCHEMA & RULES:
 
@@ -5,20 +5,39 @@ import {DynamicStructuredTool} from '@langchain/core/tools';
 import {parse} from 'graphql';
 import type {Logger} from 'pino';
 import {z} from 'zod';
+import {type RunBudget, stepSignal, takeGraphQLCall} from '../budget.js';
 import type {GraphQLService} from '../graphql.service.js';
-import type {GraphQLProjectConfig} from '../types.js';
+import {fenceUntrustedData, sanitizeData} from '../sanitize.js';
+import type {GraphQLProjectConfig, GraphQLQueryArtifact, SanitizationOptions} from '../types.js';
 
 export function createGraphQLValidatorAndExecuteTool(
   config: GraphQLProjectConfig,
   graphQLService: GraphQLService,
-  logger?: Logger
+  logger?: Logger,
+  sanitization: SanitizationOptions = {}
 ) {
+  // Indexed data is attacker controlled, e.g. token names and memos, so it is cleaned before the LLM sees it.
+  // Error messages and unexpected responses can echo it back, so they are cleaned and fenced the same way
+  const sanitize = (artifact: GraphQLQueryArtifact, field: 'data' | 'errors' | 'response', value: unknown) => {
+    const sanitized = sanitizeData({[field]: value}, sanitization);
+    if (sanitized.suspicious.length) {
+      artifact.suspicious = sanitized.suspicious;
+      logger?.warn({suspicious: sanitized.suspicious}, 'Possible prompt injection in query result');
+    }
+    return fenceUntrustedData((sanitized.data as Record<string, unknown>)[field]);
+  };
+
   const schema = z.object({
     query: z.string().describe('The GraphQL query to validate'),
     variables: z.record(z.string(), z.any()).optional().describe('Variables for the GraphQL query'),
   });
 
-  const _execute = async (query: string, variables?: Record<string, any>) => {
+  const _execute = async (
+    artifact: GraphQLQueryArtifact,
+    query: string,
+    variables?: Record<string, any>,
+    signal?: AbortSignal
+  ) => {
     const startTime = Date.now();
     logger?.info(
       {
@@ -31,7 +50,7 @@ export function createGraphQLValidatorAndExecuteTool(
 
     try {
       // Execute the query
-      const result = await graphQLService.execute(query, variables);
+      const result = await graphQLService.execute(query, variables, signal);
 
       const executionTime = Date.now() - startTime;
       logger?.info(
@@ -47,13 +66,16 @@ export function createGraphQLValidatorAndExecuteTool(
       // Handle errors in the response
       if (result.errors && result.errors.length > 0) {
         const errorMessages = result.errors.map((error: any) => error.message || String(error));
+        artifact.errors = errorMessages;
         logger?.error({errors: errorMessages}, 'Query execution failed');
-        return `❌ Query execution failed:\n${errorMessages.map((msg: string) => `- ${msg}`).join('\n')}`;
+        return `❌ Query execution failed:\n${sanitize(artifact, 'errors', errorMessages)}`;
       }
 
       // Format the response
       if (result.data) {
-        const formattedData = JSON.stringify(result.data, null, 2);
+        artifact.ok = true;
+        artifact.data = result.data;
+        const formattedData = sanitize(artifact, 'data', result.data);
         const dataSize = new Blob([formattedData]).size;
         logger?.info(
           {
@@ -67,7 +89,7 @@ export function createGraphQLValidatorAndExecuteTool(
       }
 
       logger?.warn({result}, 'Unexpected response format');
-      return `⚠️ Unexpected response format:\n${JSON.stringify(result, null, 2)}`;
+      return `⚠️ Unexpected response format:\n${sanitize(artifact, 'response', result)}`;
     } catch (error) {
       const executionTime = Date.now() - startTime;
       logger?.error(
@@ -77,7 +99,8 @@ export function createGraphQLValidatorAndExecuteTool(
         },
         'Error executing query'
       );
-      return `Error executing query: ${(error as any).message}`;
+      artifact.errors = [error instanceof Error ? error.message : String(error)];
+      return `Error executing query:\n${sanitize(artifact, 'errors', artifact.errors)}`;
     }
   };
 
@@ -135,150 +158,181 @@ export function createGraphQLValidatorAndExecuteTool(
 
     The tool will automatically clean code blocks, backticks, and quotes.`,
     schema,
-    func: async (input: z.infer<typeof schema>) => {
-      let {query, variables} = input;
+    // The artifact records the executed query and its result on the ToolMessage without sending it to the LLM
+    responseFormat: 'content_and_artifact',
+    func: async (input: z.infer<typeof schema>, _runManager, config): Promise<[string, GraphQLQueryArtifact]> => {
       const startTime = Date.now();
-      logger?.info(
+      const artifact: GraphQLQueryArtifact = {query: input.query, durationMs: 0, ok: false, errors: []};
+      if (input.variables) {
+        artifact.variables = input.variables;
+      }
+      const budget = config?.configurable?.budget as RunBudget | undefined;
+      const content = await validateAndExecute(artifact, input, stepSignal(budget, config?.signal), budget);
+      artifact.durationMs = Date.now() - startTime;
+      return [content, artifact];
+    },
+  });
+
+  async function validateAndExecute(
+    artifact: GraphQLQueryArtifact,
+    input: z.infer<typeof schema>,
+    signal?: AbortSignal,
+    budget?: RunBudget
+  ): Promise<string> {
+    let {query, variables} = input;
+    const startTime = Date.now();
+    logger?.info(
+      {
+        originalQueryLength: query.length,
+        queryPreview: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+      },
+      'Starting query validation'
+    );
+
+    try {
+      // Clean up common formatting issues first
+      const originalQuery = query;
+      query = query.trim();
+
+      // Remove code block markers (```...```)
+      if (query.startsWith('```') && query.endsWith('```')) {
+        query = query.slice(3, -3).trim();
+        // Also remove language identifier if present (e.g., ```graphql)
+        const lines = query.split('\n');
+        if (lines && lines[0] && lines[0].trim() && !lines[0].trim().startsWith('{')) {
+          query = lines.slice(1).join('\n').trim();
+        }
+      }
+
+      // Remove single backticks if present
+      if (query.startsWith('`') && query.endsWith('`')) {
+        query = query.slice(1, -1).trim();
+      }
+
+      // Remove quotes if present
+      if ((query.startsWith('"') && query.endsWith('"')) || (query.startsWith("'") && query.endsWith("'"))) {
+        query = query.slice(1, -1).trim();
+      }
+
+      logger?.debug(
         {
-          originalQueryLength: query.length,
-          queryPreview: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+          wasModified: originalQuery !== query,
+          cleanedQueryLength: query.length,
         },
-        'Starting query validation'
+        'Query cleaned'
       );
+      artifact.query = query;
 
-      try {
-        // Clean up common formatting issues first
-        const originalQuery = query;
-        query = query.trim();
-
-        // Remove code block markers (```...```)
-        if (query.startsWith('```') && query.endsWith('```')) {
-          query = query.slice(3, -3).trim();
-          // Also remove language identifier if present (e.g., ```graphql)
-          const lines = query.split('\n');
-          if (lines && lines[0] && lines[0].trim() && !lines[0].trim().startsWith('{')) {
-            query = lines.slice(1).join('\n').trim();
-          }
-        }
+      // Basic syntax validation
+      const validationErrors: string[] = [];
 
-        // Remove single backticks if present
-        if (query.startsWith('`') && query.endsWith('`')) {
-          query = query.slice(1, -1).trim();
-        }
-
-        // Remove quotes if present
-        if ((query.startsWith('"') && query.endsWith('"')) || (query.startsWith("'") && query.endsWith("'"))) {
-          query = query.slice(1, -1).trim();
-        }
+      // Check for basic GraphQL structure
+      if (!query) {
+        logger?.warn({}, 'Empty query provided');
+        artifact.errors = ['Empty query'];
+        return '❌ Validation failed: Empty query';
+      }
 
-        logger?.debug(
-          {
-            wasModified: originalQuery !== query,
-            cleanedQueryLength: query.length,
-          },
-          'Query cleaned'
-        );
+      // Check for balanced braces
+      const openBraces = (query.match(/\{/g) || []).length;
+      const closeBraces = (query.match(/\}/g) || []).length;
+      if (openBraces !== closeBraces) {
+        validationErrors.push(`Unbalanced braces: ${openBraces} opening, ${closeBraces} closing`);
+      }
 
-        // Basic syntax validation
-        const validationErrors: string[] = [];
+      // Check for balanced parentheses
+      const openParens = (query.match(/\(/g) || []).length;
+      const closeParens = (query.match(/\)/g) || []).length;
+      if (openParens !== closeParens) {
+        validationErrors.push(`Unbalanced parentheses: ${openParens} opening, ${closeParens} closing`);
+      }
 
-        // Check for basic GraphQL structure
-        if (!query) {
-          logger?.warn({}, 'Empty query provided');
-          return '❌ Validation failed: Empty query';
-        }
+      logger?.debug(
+        {
+          openBraces,
+          closeBraces,
+          openParens,
+          closeParens,
+          basicValidationErrors: validationErrors.length,
+        },
+        'Basic validation'
+      );
 
-        // Check for balanced braces
-        const openBraces = (query.match(/\{/g) || []).length;
-        const closeBraces = (query.match(/\}/g) || []).length;
-        if (openBraces !== closeBraces) {
-          validationErrors.push(`Unbalanced braces: ${openBraces} opening, ${closeBraces} closing`);
-        }
+      // Early return if basic syntax errors found
+      if (validationErrors.length > 0) {
+        logger?.error({errors: validationErrors}, 'Basic syntax validation failed');
+        artifact.errors = validationErrors;
+        return `❌ Basic syntax validation failed:\n${validationErrors.map((error: string) => `- ${error}`).join('\n')}`;
+      }
 
-        // Check for balanced parentheses
-        const openParens = (query.match(/\(/g) || []).length;
-        const closeParens = (query.match(/\)/g) || []).length;
-        if (openParens !== closeParens) {
-          validationErrors.push(`Unbalanced parentheses: ${openParens} opening, ${closeParens} closing`);
+      // Advanced validation with GraphQL parser
+      try {
+        logger?.debug({}, 'Performing GraphQL parsing validation');
+
+        // Parse the query to check for syntax errors
+        const document = parse(query);
+
+        // Perform schema validation if GraphQL service is available
+        let schemaValidationErrors: string[] = [];
+        if (graphQLService) {
+          try {
+            const validationResult = await graphQLService.validate(query, signal);
+            if (validationResult.length > 0) {
+              schemaValidationErrors = validationResult;
+            }
+          } catch (schemaError: any) {
+            // logger?.warn({ error: schemaError.message }, `Schema validation failed, falling back to syntax validation only`);
+          }
         }
 
-        logger?.debug(
+        const validationTime = Date.now() - startTime;
+        logger?.info(
           {
-            openBraces,
-            closeBraces,
-            openParens,
-            closeParens,
-            basicValidationErrors: validationErrors.length,
+            validationTime: `${validationTime}ms`,
+            hasDefinitions: !!(document && document.definitions),
+            definitionCount: document?.definitions?.length || 0,
+            schemaValidationErrors: schemaValidationErrors.length,
           },
-          'Basic validation'
+          `Query validation completed`
         );
 
-        // Early return if basic syntax errors found
-        if (validationErrors.length > 0) {
-          logger?.error({errors: validationErrors}, 'Basic syntax validation failed');
-          return `❌ Basic syntax validation failed:\n${validationErrors.map((error: string) => `- ${error}`).join('\n')}`;
+        // If schema validation errors found, return them
+        if (schemaValidationErrors.length > 0) {
+          logger?.error({errors: schemaValidationErrors}, `Schema validation failed`);
+          artifact.errors = schemaValidationErrors;
+          return `❌ Schema validation failed:\n${schemaValidationErrors.map((error: string) => `- ${error}`).join('\n')}`;
         }
 
-        // Advanced validation with GraphQL parser
-        try {
-          logger?.debug({}, 'Performing GraphQL parsing validation');
-
-          // Parse the query to check for syntax errors
-          const document = parse(query);
-
-          // Perform schema validation if GraphQL service is available
-          let schemaValidationErrors: string[] = [];
-          if (graphQLService) {
-            try {
-              const validationResult = await graphQLService.validate(query);
-              if (validationResult.length > 0) {
-                schemaValidationErrors = validationResult;
-              }
-            } catch (schemaError: any) {
-              // logger?.warn({ error: schemaError.message }, `Schema validation failed, falling back to syntax validation only`);
-            }
-          }
-
-          const validationTime = Date.now() - startTime;
-          logger?.info(
-            {
-              validationTime: `${validationTime}ms`,
-              hasDefinitions: !!(document && document.definitions),
-              definitionCount: document?.definitions?.length || 0,
-              schemaValidationErrors: schemaValidationErrors.length,
-            },
-            `Query validation completed`
-          );
-
-          // If schema validation errors found, return them
-          if (schemaValidationErrors.length > 0) {
-            logger?.error({errors: schemaValidationErrors}, `Schema validation failed`);
-            return `❌ Schema validation failed:\n${schemaValidationErrors.map((error: string) => `- ${error}`).join('\n')}`;
-          }
-
-          // If we have GraphQL service but no cached schema, try to fetch and cache it
-          if (graphQLService) {
-            try {
-              // Trigger schema fetch to populate cache for future validations
-              graphQLService.fetchSchema().catch((error: any) => {
-                logger?.warn({error: error.message}, `Failed to fetch schema for caching`);
-              });
-            } catch (fetchError: any) {
-              logger?.debug({error: fetchError.message}, `Schema fetch attempt completed`);
-            }
+        // If we have GraphQL service but no cached schema, try to fetch and cache it
+        if (graphQLService) {
+          try {
+            // Trigger schema fetch to populate cache for future validations
+            graphQLService.fetchSchema().catch((error: any) => {
+              logger?.warn({error: error.message}, `Failed to fetch schema for caching`);
+            });
+          } catch (fetchError: any) {
+            logger?.debug({error: fetchError.message}, `Schema fetch attempt completed`);
           }
+        }
 
-          return await _execute(query, variables);
-        } catch (parseError: any) {
-          const validationTime = Date.now() - startTime;
-          logger?.error(parseError, `Query parsing failed after ${validationTime}ms`);
-          return `❌ Query parsing failed: ${parseError.message || String(parseError)}`;
+        if (!takeGraphQLCall(budget)) {
+          logger?.warn({maxGraphQLCalls: budget?.maxGraphQLCalls}, 'GraphQL call quota of the question exceeded');
+          artifact.errors = ['GraphQL call quota exceeded'];
+          return `❌ The quota of ${budget?.maxGraphQLCalls} GraphQL calls for this question is used up, the query was not executed. Answer with the data already returned.`;
         }
-      } catch (error: any) {
+
+        return await _execute(artifact, query, variables, signal);
+      } catch (parseError: any) {
         const validationTime = Date.now() - startTime;
-        logger?.error(error, `Unexpected error after ${validationTime}ms`);
-        return `Error validating query: ${error.message || String(error)}`;
+        logger?.error(parseError, `Query parsing failed after ${validationTime}ms`);
+        artifact.errors = [parseError.message || String(parseError)];
+        return `❌ Query parsing failed: ${parseError.message || String(parseError)}`;
       }
-    },
-  });
+    } catch (error: any) {
+      const validationTime = Date.now() - startTime;
+      logger?.error(error, `Unexpected error after ${validationTime}ms`);
+      artifact.errors = [error.message || String(error)];
+      return `Error validating query: ${error.message || String(error)}`;
+    }
+  }
 }
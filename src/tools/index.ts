@@ -2,21 +2,72 @@
 // SPDX-License-Identifier: GPL-3.0
 
 import type {DynamicStructuredTool} from '@langchain/core/tools';
+import type {Tracer} from '@opentelemetry/api';
 import type {Logger} from 'pino';
 import type {GraphQLService} from '../graphql.service.js';
-import type {GraphQLProjectConfig} from '../types.js';
+import {isQueryArtifact} from '../result.js';
+import {parseValidationFailure} from '../stream.js';
+import {countRows, projectAttributes, queryHash, withSpan} from '../tracing.js';
+import type {GraphQLProjectConfig, SanitizationOptions} from '../types.js';
 import {createGraphQLSchemaInfoTool} from './graphql-schema-info.tool.js';
 import {createGraphQLValidatorAndExecuteTool} from './graphql-validate-excute.tool.js';
 
 export function createGraphQLTools(
   service: GraphQLService,
   config: GraphQLProjectConfig,
-  logger?: Logger
+  logger?: Logger,
+  namespace?: string,
+  tracer?: Tracer,
+  sanitization?: SanitizationOptions
 ): DynamicStructuredTool[] {
-  return [
+  const tools = [
     createGraphQLSchemaInfoTool(config, logger),
-    createGraphQLValidatorAndExecuteTool(config, service, logger),
+    createGraphQLValidatorAndExecuteTool(config, service, logger, sanitization),
     // createGraphQLValidatorTool(config, service),
     // createGraphQLExecuteTool(config, service)
   ];
+
+  // Namespaced tools let one agent call several endpoints, e.g. dex__graphql_query_validator
+  if (namespace) {
+    for (const tool of tools) {
+      tool.name = namespacedToolName(namespace, tool.name);
+      tool.description = `[${config.domainName}] ${tool.description}`;
+    }
+  }
+  if (tracer) {
+    for (const tool of tools) {
+      traceTool(tool, config, tracer);
+    }
+  }
+  return tools;
+}
+
+// Runs each call in a span, GraphQL requests made by the tool become its children
+function traceTool(tool: DynamicStructuredTool, config: GraphQLProjectConfig, tracer: Tracer): void {
+  const func = tool.func;
+  const attributes = {
+    'gen_ai.operation.name': 'execute_tool',
+    'gen_ai.tool.name': tool.name,
+    ...projectAttributes(config),
+  };
+
+  tool.func = async (input, runManager, runConfig) =>
+    withSpan(tracer, `execute_tool ${tool.name}`, attributes, async (span) => {
+      const output = await func(input, runManager, runConfig);
+      // The query validator returns [content, artifact], the artifact describes the executed query
+      const [content, artifact] = Array.isArray(output) ? (output as [unknown, unknown]) : [output, undefined];
+      if (span && isQueryArtifact(artifact)) {
+        span.setAttributes({
+          'graphql_agent.query_hash': queryHash(artifact.query),
+          'graphql_agent.validation': parseValidationFailure(String(content)) ? 'failed' : 'passed',
+          'graphql_agent.query_ok': artifact.ok,
+          'graphql_agent.row_count': countRows(artifact.data),
+        });
+      }
+      return output;
+    });
+}
+
+export function namespacedToolName(namespace: string, toolName: string): string {
+  return `${namespace}__${toolName}`;
 }
@@ -0,0 +1,166 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {createHash} from 'node:crypto';
+import {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {Serialized} from '@langchain/core/load/serializable';
+import type {AIMessage, BaseMessage} from '@langchain/core/messages';
+import type {ChatGeneration, LLMResult} from '@langchain/core/outputs';
+import {
+  type Attributes,
+  type Context,
+  context,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  type Tracer,
+} from '@opentelemetry/api';
+import type {GraphQLProjectConfig} from './types.js';
+import {extractTokenUsage} from './usage.js';
+
+export function recordError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error)});
+}
+
+/**
+ * Runs `fn` in a new active span, so spans started inside it (e.g. fetches made by a tool) become its children.
+ * Without a tracer `fn` runs as is, tracing is opt-in.
+ */
+export async function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: Attributes,
+  fn: (span?: Span) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return fn();
+  }
+  return tracer.startActiveSpan(name, {attributes}, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Async generators resume in the context of whoever iterates them, so every step runs in `ctx` instead
+export async function* bindContext<T>(ctx: Context, iterable: AsyncIterable<T>): AsyncGenerator<T> {
+  const iterator = context.with(ctx, () => iterable[Symbol.asyncIterator]());
+  try {
+    while (true) {
+      const next = await context.with(ctx, async () => iterator.next());
+      if (next.done) {
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    await context.with(ctx, async () => iterator.return?.());
+  }
+}
+
+export function projectAttributes(config: Partial<GraphQLProjectConfig>): Attributes {
+  return {
+    'graphql_agent.endpoint': config.endpoint,
+    'graphql_agent.cid': config.cid,
+    'graphql_agent.node_type': config.nodeType,
+  };
+}
+
+// Queries can contain user data such as addresses, so spans carry a hash to group identical queries
+export function queryHash(query: string): string {
+  return createHash('sha256').update(query).digest('hex').slice(0, 16);
+}
+
+// Counts the entities returned per top level field, lists directly or as PostGraphile/The Graph style {nodes: [...]}
+export function countRows(data: unknown): number {
+  if (!data || typeof data !== 'object') {
+    return 0;
+  }
+  let rows = 0;
+  for (const value of Object.values(data)) {
+    if (Array.isArray(value)) {
+      rows += value.length;
+    } else if (value && typeof value === 'object' && Array.isArray((value as {nodes?: unknown}).nodes)) {
+      rows += (value as {nodes: unknown[]}).nodes.length;
+    } else if (value) {
+      rows += 1;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Callback handler creating a span per chat model call.
+ * Callbacks don't run in the context of the model call, so the parent context is captured when the run starts.
+ */
+export class LLMSpanHandler extends BaseCallbackHandler {
+  name = 'otel_llm_spans';
+  private readonly spans = new Map<string, Span>();
+
+  constructor(
+    private readonly tracer: Tracer,
+    private readonly parent: Context = context.active()
+  ) {
+    super({_awaitHandler: true});
+  }
+
+  override handleChatModelStart(
+    _llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ): void {
+    const model = typeof metadata?.ls_model_name === 'string' ? metadata.ls_model_name : undefined;
+    const span = this.tracer.startSpan(
+      model ? `chat ${model}` : 'chat',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.system': typeof metadata?.ls_provider === 'string' ? metadata.ls_provider : undefined,
+          'gen_ai.request.model': model,
+        },
+      },
+      this.parent
+    );
+    this.spans.set(runId, span);
+  }
+
+  override handleLLMEnd(output: LLMResult, runId: string): void {
+    const span = this.spans.get(runId);
+    if (!span) {
+      return;
+    }
+    this.spans.delete(runId);
+
+    const message = (output.generations[0]?.[0] as ChatGeneration | undefined)?.message as AIMessage | undefined;
+    const usage = extractTokenUsage(output, message);
+    const responseModel = message?.response_metadata?.model_name;
+    span.setAttributes({
+      'gen_ai.response.model': typeof responseModel === 'string' ? responseModel : undefined,
+      'gen_ai.usage.input_tokens': usage.promptTokens,
+      'gen_ai.usage.output_tokens': usage.completionTokens,
+      'graphql_agent.tool_calls': message?.tool_calls?.length ?? 0,
+    });
+    span.end();
+  }
+
+  override handleLLMError(error: unknown, runId: string): void {
+    const span = this.spans.get(runId);
+    if (!span) {
+      return;
+    }
+    this.spans.delete(runId);
+    recordError(span, error);
+    span.end();
+  }
+}
@@ -1,16 +1,190 @@
 // Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import type {BaseChatModel} from '@langchain/core/language_models/chat_models';
+import type {BaseMessage, StoredMessage} from '@langchain/core/messages';
+import type {Tracer} from '@opentelemetry/api';
 import type {IntrospectionQuery} from 'graphql';
 import type {Logger} from 'pino';
+import type {AnswerCache} from './answer-cache.js';
+import type {QuotaLimiter} from './quota.js';
+import type {GraphQLResponseCache} from './response-cache.js';
 
-export type GraphQLAgent = {
+export type InvokeOptions = {
+  // Continue the conversation of this thread, prior turns are loaded from the conversation store
+  threadId?: string;
+  // Cancels the LLM calls and GraphQL requests of this invocation, e.g. AbortSignal.timeout(30000) for a deadline
+  signal?: AbortSignal;
+  // Prior turns sent by a stateless client (e.g. an OpenAI style messages array), used instead of the thread history
+  history?: BaseMessage[];
+  // BCP 47 tag for the answer language and number and date formatting, overrides GraphQLAgentConfig.locale
+  locale?: string;
+  // Key the quotas of GraphQLAgentConfig.quota are counted under, e.g. the customer id, defaults to 'default'
+  tenant?: string;
+};
+
+export type GraphQLQueryRecord = {
+  query: string;
+  variables?: Record<string, unknown>;
+  durationMs: number;
+  ok: boolean;
+  errors: string[];
+  // Result values that looked like prompt injection, only set when there were any
+  suspicious?: SuspiciousValue[];
+};
+
+// A result value flagged by the sanitizer, e.g. {path: 'tokens.nodes[3].name', pattern: 'ignore_instructions'}
+export type SuspiciousValue = {
+  path: string;
+  pattern: string;
+};
+
+// Applied to query results before the LLM sees them, the data on structured answers stays as returned
+export type SanitizationOptions = {
+  maxStringLength?: number; // longer strings are truncated, defaults to 1000
+  redact?: boolean; // replace suspicious strings instead of only flagging them, defaults to true
+};
+
+// Attached to the graphql_query_validator ToolMessage as its artifact
+export type GraphQLQueryArtifact = GraphQLQueryRecord & {
+  data?: unknown;
+};
+
+export type GraphQLToolCall = {
+  id?: string | undefined;
+  name: string;
+  args: Record<string, unknown>;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+// Price of a model in USD per million tokens
+export type ModelPrice = {
+  promptPerMillion: number;
+  completionPerMillion: number;
+};
+
+// Token usage summed over every LLM call of one invocation or project analysis
+export type LLMUsage = TokenUsage & {
+  llmCalls: number;
+  // Only set when every model used has a price in the price table
+  cost?: number;
+  byModel: Record<string, TokenUsage & {llmCalls: number; cost?: number}>;
+};
+
+export type UsageContext =
+  | {operation: 'invoke'; question: string; threadId?: string | undefined}
+  | {operation: 'analysis'; endpoint: string; cid: string};
+
+export type UsageOptions = {
+  // Keyed by model name, a key also matches dated versions of the model (e.g. gpt-4o matches gpt-4o-2024-08-06)
+  prices?: Record<string, ModelPrice>;
+  // Called after every invocation and project analysis, also when it failed or was cancelled
+  onUsage?: (usage: LLMUsage, context: UsageContext) => void;
+};
+
+export type StructuredAnswer = {
+  answer: string;
+  queries: GraphQLQueryRecord[];
+  // Data returned by the last successful query
+  data: unknown;
+  toolCalls: GraphQLToolCall[];
+  declined: boolean; // the question was out of scope and the decline message was returned
+  needsUserInput: boolean; // the agent asked the user for more information instead of answering
+  partial: boolean; // the tool call budget or time limit ran out, the answer is based on the data fetched so far
+  cached: boolean; // served from the answer cache without calling the LLM, usage is zero
+  // Only set when the scope classifier ran
+  scope?: ScopeClassification;
+  // Only set when the tenant ran into a quota, the answer then explains the limit
+  quotaExceeded?: QuotaExceeded;
+  usage: LLMUsage;
+};
+
+export type ScopeClassification = {
+  scope: 'in_scope' | 'out_of_scope' | 'needs_clarification';
+  confidence: number; // 0-1
+  // Domain capability the question matched
+  capability?: string;
+  // Question asking the user for the missing details, only for needs_clarification
+  clarification?: string;
+};
+
+export type ScopeClassifierOptions = {
+  enabled?: boolean; // defaults to true when the options are set
+  // Minimum confidence to decline or ask for clarification without running the agent, defaults to 0.7
+  threshold?: number;
+  // A cheaper model for the classification, defaults to the agent model
+  model?: BaseChatModel;
+};
+
+export type GraphQLAgentEvent =
+  | {type: 'token'; content: string} // LLM token delta
+  | {type: 'step_end'; toolCalls: boolean} // a model step finished, without tool calls its tokens are the answer
+  | {type: 'tool_start'; tool: string; query?: string | undefined}
+  | {type: 'tool_end'; tool: string; query?: string | undefined; output: string}
+  | {type: 'validation_failed'; query?: string | undefined; errors: string[]}
+  | ({type: 'scope'} & ScopeClassification) // emitted before the agent runs when the scope classifier is enabled
+  | {type: 'final'; answer: string; partial: boolean; usage: LLMUsage; quotaExceeded?: QuotaExceeded};
+
+export type QuotaLimit = 'requests_per_minute' | 'graphql_calls_per_question' | 'tokens_per_day';
+
+// Returned instead of an error when a tenant is over one of its limits
+export type QuotaExceeded = {
+  limit: QuotaLimit;
+  tenant: string;
+  max: number;
+  used: number;
+  // Until the window of the limit resets, not set for the per question limit
+  retryAfterMs?: number;
+};
+
+// Limits left unset are not enforced
+export type QuotaLimits = {
+  requestsPerMinute?: number;
+  graphqlCallsPerQuestion?: number;
+  tokensPerDay?: number;
+};
+
+// Counters shared by every agent using the limiter, implement it on Redis or similar to share them across processes
+export type QuotaCounterStore = {
+  // Adds the amount to the counter and returns the new total, a counter is created with an expiry of windowMs
+  increment(key: string, amount: number, windowMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+};
+
+export type QuotaOptions = QuotaLimits & {
+  store?: QuotaCounterStore; // defaults to an in-memory store
+  // Limits of a tenant, e.g. from the customer's plan. Unset limits fall back to the ones above
+  limitsFor?: (tenant: string) => QuotaLimits | Promise<QuotaLimits>;
+};
+
+export type GraphQLAgentSession = {
+  threadId: string;
   invoke: (question: string) => Promise<string>;
+  invokeStructured: (question: string) => Promise<StructuredAnswer>;
+  stream: (question: string) => AsyncIterable<GraphQLAgentEvent>;
+};
+
+export type GraphQLAgent = {
+  invoke: (question: string, options?: InvokeOptions) => Promise<string>;
+  // Same as invoke, but returns the executed queries and data taken from the tool messages alongside the answer
+  invokeStructured: (question: string, options?: InvokeOptions) => Promise<StructuredAnswer>;
+  // Same as invoke, but yields progress events while the agent runs. The last event is always 'final'
+  stream: (question: string, options?: InvokeOptions) => AsyncIterable<GraphQLAgentEvent>;
+  // Create a new multi-turn session, or resume an existing one by passing its threadId
+  createSession: (threadId?: string) => GraphQLAgentSession;
 };
 
 export enum GraphqlProvider {
   SUBQL = 'subql',
   THE_GRAPH = 'thegraph',
+  // Only detected for projects initialized from introspection
+  HASURA = 'hasura',
+  POSTGRAPHILE = 'postgraphile',
   UNKNOWN = 'unknown',
 }
 
@@ -38,7 +212,10 @@ export interface GraphQLAnalysisResult {
   domainName: string;
   domainCapabilities: string[];
   declineMessage: string;
-  // suggestedQuestions: string[];
+  // Translations of the decline message keyed by language tag
+  declineMessages?: Record<string, string>;
+  // Example questions about the project's entities, only kept once verified, see SuggestedQuestionsOptions
+  suggestedQuestions?: string[];
 }
 
 export interface GraphQLProjectConfigInput {
@@ -54,25 +231,216 @@ export interface GraphQLProjectConfig extends GraphQLProjectConfigInput {
   updatedAt: string;
   lastAnalyzedAt?: string;
   lastAnalysisError?: string;
+  // Failed analyses in a row and when the last one failed, for the retry backoff of AnalysisPolicy
+  analysisFailures?: number;
+  lastAnalysisFailedAt?: string;
+  // Token usage of the last project analysis
+  lastAnalysisUsage?: LLMUsage;
   domainName: string;
   domainCapabilities: string[];
   declineMessage: string;
+  // Translations of the decline message keyed by language tag (e.g. zh, ja, de), see InitializeProjectOptions.languages
+  declineMessages?: Record<string, string>;
+  // Starter questions the agent produced a valid query for, e.g. to show as clickable prompts
+  suggestedQuestions?: string[];
   // Cached introspection schema from endpoint
   introspectionSchema?: IntrospectionQuery;
+  // Where schemaContent came from, the entity schema of the project manifest by default.
+  // A schema derived from introspection gets provider-agnostic query rules
+  schemaSource?: 'manifest' | 'introspection';
 }
 
 export type PersistentService = {
   save(endpoint: string, config: GraphQLProjectConfig, namespace?: string): Promise<void>;
   load(endpoint: string, cid?: string, namespace?: string): Promise<GraphQLProjectConfig | undefined>;
+  // Every saved config, needed by the ProjectRefresher
+  list?(namespace?: string): Promise<GraphQLProjectConfig[]>;
+};
+
+export type ConversationStore = {
+  save(threadId: string, messages: StoredMessage[]): Promise<void>;
+  load(threadId: string): Promise<StoredMessage[] | undefined>;
+  // Forgets a thread, e.g. when the user ends the conversation
+  delete(threadId: string): Promise<void>;
+};
+
+// Answer stored by the answer cache, with the queries that produced it so its data can be refreshed
+export type CachedAnswer = {
+  cid: string;
+  // Answers in other languages are separate entries
+  locale?: string;
+  // Hash of the authorization the answer was fetched with, only callers with the same credential get the answer
+  credential?: string;
+  // The question as first asked
+  question: string;
+  // Normalized question the entry is stored under, prefixed with the credential and locale when set
+  key: string;
+  // Only set when the cache embeds questions
+  embedding?: number[];
+  answer: string;
+  queries: GraphQLQueryRecord[];
+  // Data returned by the last successful query
+  data: unknown;
+  declined: boolean;
+  createdAt: string;
+  expiresAt: string;
+  refreshedAt?: string;
+};
+
+// Storage of cached answers by deployment CID, stores may return expired entries
+export type AnswerCacheStore = {
+  get(cid: string, key: string): Promise<CachedAnswer | undefined>;
+  set(entry: CachedAnswer): Promise<void>;
+  // Entries of a deployment, searched for similar questions when the cache embeds questions
+  list(cid: string): Promise<CachedAnswer[]>;
+  // Removes every entry of a deployment
+  clear(cid: string): Promise<void>;
+};
+
+export type AnswerCacheOptions = {
+  store?: AnswerCacheStore; // defaults to an in-memory store
+  ttlMs?: number; // defaults to 1 hour
+  // Embeds questions to also match rephrased ones, e.g. (text) => new OpenAIEmbeddings().embedQuery(text)
+  embed?: (text: string) => Promise<number[]>;
+  minSimilarity?: number; // cosine similarity of a match when embedding, defaults to 0.95
+};
+
+export type GraphQLResponseCacheOptions = {
+  // Defaults to 30 seconds, a function sets it per project. 0 disables caching for a project
+  ttlMs?: number | ((project: GraphQLProjectConfig) => number);
+  // Drops cached responses once the indexer processed a newer block (_metadata.lastProcessedHeight or _meta.block.number)
+  blockAware?: boolean;
+  maxEntries?: number; // defaults to 1000, the oldest entries are dropped first
+};
+
+export type OpenAILLMConfig = {
+  model: string;
+  baseUrl?: string; // must put into env variable OPENAI_API_BASE
+  apiKey?: string;
+  temperature?: number;
 };
 
+// Supplies the chat models used by the agent, implement this to use non OpenAI-compatible providers
+export interface LLMProvider {
+  // Chat model driving the agent loop, it must support tool calling
+  getAgentModel(): BaseChatModel;
+  // Chat model used to analyze projects during initialization
+  getAnalysisModel(): BaseChatModel;
+}
+
+// Used for GraphQL, CID and IPFS requests, inject one to record or replay responses in tests
+export type FetchFn = typeof fetch;
+
 export type GraphQLAgentConfig = {
-  llm: {
-    model: string;
-    baseUrl?: string; // must put into env variable OPENAI_API_BASE
-    apiKey?: string;
-    temperature?: number;
-  };
+  // OpenAI-compatible API settings, any LangChain chat model, or a custom provider
+  llm: OpenAILLMConfig | BaseChatModel | LLMProvider;
   verbose: number; // 0 = compact, 1 = with reason, 2 = debug
   logger?: Logger;
+  limits?: {
+    maxToolCalls?: number; // tool calls per question, defaults to 4
+    maxDurationMs?: number; // wall-clock time per question, calls still running are aborted, no limit by default
+  };
+  conversation?: {
+    store?: ConversationStore; // defaults to an in-memory store
+    maxHistoryTokens?: number; // loaded threads are shortened to stay within this budget
+  };
+  fetch?: FetchFn; // defaults to the global fetch
+  // Lets queries reach local and private network hosts, also through redirects (default true)
+  allowLocalhost?: boolean;
+  usage?: UsageOptions;
+  // OpenTelemetry tracer, spans are only recorded when one is set
+  tracer?: Tracer;
+  // Answers repeated questions without calling the LLM, share one cache between agents. Single project agents only
+  answerCache?: AnswerCache;
+  // Reuses GraphQL responses of identical queries across runs, share one cache between agents
+  responseCache?: GraphQLResponseCache;
+  // Classifies the first question of a conversation against the domain capabilities before running the agent
+  scopeClassifier?: ScopeClassifierOptions;
+  sanitization?: SanitizationOptions;
+  // BCP 47 tag for the answer language and number and date formatting (e.g. zh-CN, ja-JP, de-DE), defaults to English
+  locale?: string;
+  // Per tenant rate limits and quotas, share one limiter between agents so the limits apply across projects
+  quota?: QuotaLimiter;
+};
+
+export type InitializeProjectOptions = {
+  // Cancels the CID lookup, IPFS fetches and project analysis
+  signal?: AbortSignal;
+  fetch?: FetchFn;
+  // Lets the endpoint and its redirects reach local and private network hosts (default true)
+  allowLocalhost?: boolean;
+  usage?: UsageOptions;
+  tracer?: Tracer;
+  // Languages to translate the decline message into during analysis, e.g. ['zh', 'ja', 'de']
+  languages?: string[];
+  // Reads the manifest and schema locally instead of from IPFS, for projects that aren't published
+  source?: ProjectSource;
+  // Skips the CID lookup and derives the schema from introspection, for GraphQL APIs that aren't SubQuery or
+  // The Graph projects (e.g. Hasura, PostGraphile or custom APIs). Also used when the endpoint reports no CID
+  introspectionOnly?: boolean;
+  // Called when the endpoint moved to a new deployment since its config was saved, e.g. to alert on removed fields
+  onSchemaChange?: (change: SchemaChange) => void | Promise<void>;
+  // When a saved analysis is redone, see AnalysisPolicy
+  analysisPolicy?: AnalysisPolicy;
+  // Analyzes the project again even when the saved analysis is complete and fresh
+  forceAnalysis?: boolean;
+  // Generates verified starter questions during analysis, off by default as verifying costs an LLM call each
+  suggestedQuestions?: SuggestedQuestionsOptions;
+};
+
+export type SuggestedQuestionsOptions = {
+  // Questions asked from the analysis, those failing verification are dropped (default 5)
+  count?: number;
+  // Also runs the queries and only keeps questions whose query returned data
+  requireData?: boolean;
+};
+
+// Besides incomplete analyses, which are always redone
+export type AnalysisPolicy = {
+  // Age after which an analysis is redone, analyses don't expire by default
+  maxAgeMs?: number;
+  // Wait before retrying a failed analysis, doubled after every failure in a row (default 1 minute)
+  retryBackoffMs?: number;
+  // Longest wait between retries (default 1 hour)
+  maxRetryBackoffMs?: number;
+};
+
+export type ProjectRefresherOptions = Omit<InitializeProjectOptions, 'source' | 'onSchemaChange' | 'signal'> & {
+  // How often the saved configs are checked (default 10 minutes)
+  intervalMs?: number;
+  namespace?: string;
+  logger?: Logger;
+  // Called with every config that was analyzed again, e.g. to recreate the agents serving it
+  onRefresh?: (config: GraphQLProjectConfig) => void | Promise<void>;
 };
+
+// A field of an entity, type is the field type in the new schema and previousType the one in the old schema
+export type SchemaFieldChange = {
+  entity: string;
+  field: string;
+  type?: string;
+  previousType?: string;
+};
+
+export type SchemaDiff = {
+  addedEntities: string[];
+  removedEntities: string[];
+  addedFields: SchemaFieldChange[];
+  removedFields: SchemaFieldChange[];
+  retypedFields: SchemaFieldChange[];
+};
+
+export type SchemaChange = {
+  endpoint: string;
+  previousCid: string;
+  cid: string;
+  diff: SchemaDiff;
+  // Whether the project is analyzed again, otherwise the analysis of the previous deployment is kept
+  reanalyze: boolean;
+};
+
+export type ProjectSource =
+  // A project directory with project.yaml or subgraph.yaml, relative schema paths resolve against it
+  | {directory: string; manifestFile?: string}
+  // Manifest (YAML or JSON) and schema content
+  | {manifest: string; schema: string};
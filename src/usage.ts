@@ -0,0 +1,132 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {Serialized} from '@langchain/core/load/serializable';
+import type {AIMessage, BaseMessage} from '@langchain/core/messages';
+import type {ChatGeneration, LLMResult} from '@langchain/core/outputs';
+import type {Logger} from 'pino';
+import type {LLMUsage, ModelPrice, TokenUsage, UsageContext, UsageOptions} from './types.js';
+
+type ModelUsage = TokenUsage & {llmCalls: number};
+
+const UNKNOWN_MODEL = 'unknown';
+
+// Exact match first, otherwise the longest key the model name starts with, e.g. gpt-4o for gpt-4o-2024-08-06
+function findPrice(prices: Record<string, ModelPrice>, model: string): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const key = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+}
+
+function costOf(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    (usage.promptTokens * price.promptPerMillion + usage.completionTokens * price.completionPerMillion) / 1_000_000
+  );
+}
+
+// Chat models report usage on the message, older integrations only in llmOutput
+export function extractTokenUsage(output: LLMResult, message?: AIMessage): TokenUsage {
+  if (message?.usage_metadata) {
+    const {input_tokens, output_tokens, total_tokens} = message.usage_metadata;
+    return {promptTokens: input_tokens, completionTokens: output_tokens, totalTokens: total_tokens};
+  }
+  const tokenUsage = output.llmOutput?.tokenUsage as Partial<TokenUsage> | undefined;
+  const promptTokens = tokenUsage?.promptTokens ?? 0;
+  const completionTokens = tokenUsage?.completionTokens ?? 0;
+  return {promptTokens, completionTokens, totalTokens: tokenUsage?.totalTokens ?? promptTokens + completionTokens};
+}
+
+/**
+ * Callback handler summing the token usage of every chat model call in a run.
+ * Pass it in the `callbacks` of a run config, a new tracker is needed for every invocation.
+ */
+export class UsageTracker extends BaseCallbackHandler {
+  name = 'usage_tracker';
+  private readonly runModels = new Map<string, string>();
+  private readonly models = new Map<string, ModelUsage>();
+
+  constructor() {
+    // Usage has to be complete when the run returns, so don't process the callbacks in the background
+    super({_awaitHandler: true});
+  }
+
+  override handleChatModelStart(
+    _llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ): void {
+    if (typeof metadata?.ls_model_name === 'string') {
+      this.runModels.set(runId, metadata.ls_model_name);
+    }
+  }
+
+  override handleLLMEnd(output: LLMResult, runId: string): void {
+    const message = (output.generations[0]?.[0] as ChatGeneration | undefined)?.message as AIMessage | undefined;
+    // The response names the exact model version, which is what prices are usually published for
+    const responseModel = message?.response_metadata?.model_name;
+    const model = typeof responseModel === 'string' ? responseModel : (this.runModels.get(runId) ?? UNKNOWN_MODEL);
+    this.runModels.delete(runId);
+
+    const usage = extractTokenUsage(output, message);
+    const total = this.models.get(model) ?? {promptTokens: 0, completionTokens: 0, totalTokens: 0, llmCalls: 0};
+    this.models.set(model, {
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      llmCalls: total.llmCalls + 1,
+    });
+  }
+
+  report(prices?: Record<string, ModelPrice>): LLMUsage {
+    const usage: LLMUsage = {promptTokens: 0, completionTokens: 0, totalTokens: 0, llmCalls: 0, byModel: {}};
+    let cost: number | undefined = prices ? 0 : undefined;
+
+    for (const [model, modelUsage] of this.models) {
+      usage.promptTokens += modelUsage.promptTokens;
+      usage.completionTokens += modelUsage.completionTokens;
+      usage.totalTokens += modelUsage.totalTokens;
+      usage.llmCalls += modelUsage.llmCalls;
+
+      const price = prices && findPrice(prices, model);
+      if (price) {
+        const modelCost = costOf(modelUsage, price);
+        usage.byModel[model] = {...modelUsage, cost: modelCost};
+        cost = cost === undefined ? undefined : cost + modelCost;
+      } else {
+        usage.byModel[model] = {...modelUsage};
+        // A partial cost would under-bill, leave it unset when any model has no price
+        cost = undefined;
+      }
+    }
+
+    if (cost !== undefined) {
+      usage.cost = cost;
+    }
+    return usage;
+  }
+}
+
+// Reports usage to the configured callback, a failing callback must not fail the invocation
+export function reportUsage(
+  options: UsageOptions | undefined,
+  tracker: UsageTracker,
+  context: UsageContext,
+  logger?: Logger
+): LLMUsage {
+  const usage = tracker.report(options?.prices);
+  try {
+    options?.onUsage?.(usage, context);
+  } catch (error) {
+    logger?.warn({error: error instanceof Error ? error.message : String(error)}, 'Usage callback failed');
+  }
+  return usage;
+}
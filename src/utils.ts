@@ -1,6 +1,8 @@
 // Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import type {FetchFn} from './types.js';
+
 const IPFS_GATEWAY_POOL: Array<{url: string; method: string}> = [
   {
     url: 'https://unauthipfs.subquery.network/ipfs/api/v0/cat?arg=',
@@ -9,18 +11,28 @@ const IPFS_GATEWAY_POOL: Array<{url: string; method: string}> = [
   {url: 'https://ipfs.thegraph.com/ipfs/', method: 'GET'},
 ];
 
+// Combine the internal timeout signal with an optional caller signal
+export function withSignal(timeoutSignal: AbortSignal, signal?: AbortSignal): AbortSignal {
+  return signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
+}
+
 const FETCH_TIMEOUT_MS = 30000;
-async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  signal?: AbortSignal,
+  fetchFn: FetchFn = fetch
+): Promise<Response> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
   try {
-    return await fetch(url, {...init, signal: controller.signal});
+    return await fetchFn(url, {...init, signal: withSignal(controller.signal, signal)});
   } finally {
     clearTimeout(timer);
   }
 }
 
-export async function fetchFromIPFS(rawPath: string): Promise<string> {
+export async function fetchFromIPFS(rawPath: string, signal?: AbortSignal, fetchFn?: FetchFn): Promise<string> {
   const normalizedPath = rawPath
     .replace(/^ipfs:\/\//, '')
     .replace(/^\/?ipfs\//, '')
@@ -42,9 +54,14 @@ export async function fetchFromIPFS(rawPath: string): Promise<string> {
   const fetchPromises = gatewayPool.map(async (gateway) => {
     try {
       const requestUrl = `${gateway.url}${encodeURIComponent(normalizedPath)}`;
-      const response = await fetchWithTimeout(requestUrl, {
-        method: gateway.method,
-      });
+      const response = await fetchWithTimeout(
+        requestUrl,
+        {
+          method: gateway.method,
+        },
+        signal,
+        fetchFn
+      );
 
       if (!response.ok) {
         const text = await response.text();
@@ -80,6 +97,7 @@ export async function fetchFromIPFS(rawPath: string): Promise<string> {
   } catch {
     // If Promise.race throws, wait for all to complete to collect errors
     await Promise.allSettled(fetchPromises);
+    signal?.throwIfAborted();
 
     // All gateways failed
     const errorSummary = errors.map((e) => `${e.url}: ${e.error}`).join('; ');
@@ -0,0 +1,117 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect, beforeAll} from '@jest/globals';
+import {
+  AnswerCache,
+  type CassetteHandle,
+  createGraphQLAgent,
+  type GraphQLAgent,
+  type GraphQLAgentEvent,
+  type GraphQLProjectConfig,
+  InMemoryAnswerCacheStore,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  normalizeQuestion,
+  openCassette,
+  type StructuredAnswer,
+} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+const QUESTION = 'Show me the 3 largest transfers';
+
+// The recorded LLM responses are replayed in order, so the tests below run as one recorded session
+describe('Answer cache', () => {
+  let cassette: CassetteHandle;
+  let config: GraphQLProjectConfig;
+  let agent: GraphQLAgent;
+  let first: StructuredAnswer;
+  const store = new InMemoryAnswerCacheStore();
+  const cache = new AnswerCache({store});
+
+  beforeAll(async () => {
+    cassette = await openCassette(CASSETTE, 'replay');
+    config = await initializeProjectConfig(
+      ENDPOINT,
+      new InMemoryPersistentService(),
+      cassette.llm,
+      undefined,
+      undefined,
+      {fetch: cassette.fetch}
+    );
+    agent = createGraphQLAgent(config, {llm: cassette.llm, verbose: 0, fetch: cassette.fetch, answerCache: cache});
+  });
+
+  it('should normalize case, punctuation and spacing', () => {
+    expect(normalizeQuestion('  Top 10 indexers,  by STAKE? ')).toBe('top 10 indexers by stake');
+  });
+
+  it('should answer a repeated question from the cache', async () => {
+    first = await agent.invokeStructured(QUESTION);
+    expect(first.cached).toBe(false);
+    expect(first.usage.llmCalls).toBe(3);
+
+    // The next recorded response is the decline, so a cache miss would answer differently
+    const second = await agent.invokeStructured('show me the 3 largest transfers!');
+    expect(second).toMatchObject({answer: first.answer, queries: first.queries, cached: true});
+    expect(second.usage.totalTokens).toBe(0);
+
+    const events: GraphQLAgentEvent[] = [];
+    for await (const event of agent.stream(QUESTION)) {
+      events.push(event);
+    }
+    expect(events).toEqual([{type: 'final', answer: first.answer, partial: false, usage: second.usage}]);
+  });
+
+  it('should refresh cached data without calling the LLM', async () => {
+    const refreshed = await cache.refresh(config, QUESTION, {fetch: cassette.fetch});
+
+    expect(refreshed?.refreshedAt).toBeDefined();
+    expect(refreshed?.queries[0]?.ok).toBe(true);
+    expect((refreshed?.data as {transfers: {nodes: unknown[]}}).transfers.nodes).toHaveLength(3);
+  });
+
+  it('should not use the cache for conversations', async () => {
+    const answer = await agent.invoke(QUESTION, {threadId: 'thread-1'});
+
+    expect(answer).toBe(config.declineMessage);
+  });
+
+  it('should drop the answers of a previous deployment', async () => {
+    const redeployed = {...config, cid: 'QmNewDeployment'};
+
+    expect((await cache.lookup(redeployed, QUESTION)).entry).toBeUndefined();
+    expect(await store.list(config.cid)).toEqual([]);
+  });
+
+  it('should not change cached answers when a caller changes its copy', async () => {
+    const copies = new AnswerCache();
+    await copies.save(config, QUESTION, first);
+
+    (await copies.lookup(config, QUESTION)).entry?.queries.splice(0);
+
+    expect((await copies.lookup(config, QUESTION)).entry?.queries).toEqual(first.queries);
+  });
+
+  it('should not share answers between callers with different credentials', async () => {
+    const shared = new AnswerCache({embed: async () => Promise.resolve([1, 0])});
+    const acme = {...config, authorization: 'Bearer acme'};
+    await shared.save(acme, QUESTION, first);
+
+    expect((await shared.lookup(acme, QUESTION)).entry?.answer).toBe(first.answer);
+    expect((await shared.lookup({...config, authorization: 'Bearer globex'}, QUESTION)).entry).toBeUndefined();
+    expect((await shared.lookup(config, QUESTION)).entry).toBeUndefined();
+    // Only a hash of the credential is stored
+    expect(JSON.stringify((await shared.lookup(acme, QUESTION)).entry)).not.toContain('acme');
+  });
+
+  it('should match rephrased questions by embedding', async () => {
+    const embed = async (text: string) => Promise.resolve(text.includes('largest') ? [1, 0.1] : [0, 1]);
+    const semantic = new AnswerCache({embed});
+    await semantic.save(config, QUESTION, first);
+
+    expect((await semantic.lookup(config, 'Which transfers are the largest?')).entry?.question).toBe(QUESTION);
+    expect((await semantic.lookup(config, 'How many accounts are there?')).entry).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect, jest, afterEach} from '@jest/globals';
+import {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {StoredMessage} from '@langchain/core/messages';
+import {createGraphQLAgent, type FetchFn} from '../src/index.js';
+import {analyzeProject, ENDPOINT, QUESTION, replayTurns, TURNS} from './fixtures/transfers.js';
+
+type ToolCall = {id: string; name: string; args: Record<string, unknown>};
+
+// Repeats the tool calls of the recorded responses, as a model calling several tools in one step would
+function repeatToolCalls(message: StoredMessage): StoredMessage {
+  const data = message.data as {tool_calls?: ToolCall[]};
+  if (data.tool_calls) {
+    data.tool_calls = data.tool_calls.flatMap((call) => [call, {...call, id: `${call.id}_again`}]);
+  }
+  return message;
+}
+
+const BUDGET_EXHAUSTED = 'The tool call budget for this question is exhausted';
+
+describe('Run budget', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should answer from the data fetched so far once the tool calls are used up', async () => {
+    const config = await analyzeProject();
+    // The model would go on with the query, but only the schema lookup fits the budget
+    const {llm, fetch, prompts} = await replayTurns([TURNS.schemaToolCall, TURNS.answer]);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0, limits: {maxToolCalls: 1}});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.partial).toBe(true);
+    expect(result.toolCalls.map(({name}) => name)).toEqual(['graphql_schema_info']);
+    expect(result.queries).toEqual([]);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]?.some(({content}) => String(content).includes(BUDGET_EXHAUSTED))).toBe(false);
+    const last = prompts[1]?.at(-1);
+    expect(last?.getType()).toBe('human');
+    expect(String(last?.content)).toContain(BUDGET_EXHAUSTED);
+  });
+
+  it('should stop calling tools once the deadline has passed', async () => {
+    let now = Date.UTC(2025, 0, 31, 12);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const config = await analyzeProject();
+    const {llm, fetch, prompts} = await replayTurns([TURNS.schemaToolCall, TURNS.answer]);
+    // The first LLM call takes longer than the whole run may
+    llm.callbacks = [
+      ...(llm.callbacks as BaseCallbackHandler[]),
+      BaseCallbackHandler.fromMethods({
+        handleChatModelStart: () => {
+          now += 5_000;
+        },
+      }),
+    ];
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0, limits: {maxDurationMs: 1_000}});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.partial).toBe(true);
+    expect(result.toolCalls.map(({name}) => name)).toEqual(['graphql_schema_info']);
+    expect(String(prompts[1]?.at(-1)?.content)).toContain(BUDGET_EXHAUSTED);
+  });
+
+  it('should cut off a GraphQL request that is still running at the deadline', async () => {
+    const config = await analyzeProject();
+    const {llm, fetch, prompts} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer]);
+    // The query only returns after two seconds, unless it is aborted first
+    const slowFetch: FetchFn = async (input, init) => {
+      if (String(input) !== ENDPOINT || String(init?.body).includes('__schema')) {
+        return fetch(input, init);
+      }
+      await new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, 2_000);
+        init?.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(init.signal?.reason);
+        });
+      });
+      return fetch(input, init);
+    };
+    const agent = createGraphQLAgent(config, {llm, fetch: slowFetch, verbose: 0, limits: {maxDurationMs: 300}});
+
+    const started = Date.now();
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(Date.now() - started).toBeLessThan(1_500);
+    expect(result.partial).toBe(true);
+    expect(result.queries.map(({ok}) => ok)).toEqual([false]);
+    expect(String(prompts[2]?.at(-1)?.content)).toContain(BUDGET_EXHAUSTED);
+  });
+
+  it('should not run more tool calls of a step than the budget has left', async () => {
+    const config = await analyzeProject();
+    const {llm, fetch} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer], repeatToolCalls);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0, limits: {maxToolCalls: 3}});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.partial).toBe(true);
+    expect(result.toolCalls.map(({name}) => name)).toEqual([
+      'graphql_schema_info',
+      'graphql_schema_info',
+      'graphql_query_validator',
+    ]);
+    expect(result.queries).toHaveLength(1);
+  });
+
+  it('should end the run when the model calls tools for its final answer', async () => {
+    const config = await analyzeProject();
+    // The model ignores that tools are switched off and asks for the query anyway
+    const {llm, fetch, prompts} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall]);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0, limits: {maxToolCalls: 1}});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.partial).toBe(true);
+    expect(result.toolCalls.map(({name}) => name)).toEqual(['graphql_schema_info']);
+    expect(result.queries).toEqual([]);
+    expect(prompts).toHaveLength(2);
+  });
+
+  it('should not mark runs that finish within the budget as partial', async () => {
+    const config = await analyzeProject();
+    const {llm, fetch, prompts} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer]);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0, limits: {maxToolCalls: 3}});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.partial).toBe(false);
+    expect(result.queries.map(({ok}) => ok)).toEqual([true]);
+    expect(prompts.some((messages) => messages.some(({content}) => String(content).includes(BUDGET_EXHAUSTED)))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,69 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import {createGraphQLAgent, type FetchFn} from '../src/index.js';
+import {analyzeProject, ENDPOINT, QUESTION, replayTurns, TURNS} from './fixtures/transfers.js';
+
+// Replays the schema lookup and the query, recording the GraphQL requests that were sent
+async function createAgent() {
+  const config = await analyzeProject();
+  const {llm, fetch} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer]);
+  const queries: string[] = [];
+  const recordingFetch: FetchFn = async (input, init) => {
+    if (String(input) === ENDPOINT) {
+      queries.push(String(init?.body));
+    }
+    return fetch(input, init);
+  };
+  const agent = createGraphQLAgent(config, {llm, fetch: recordingFetch, verbose: 0});
+  return {agent, llm, queries};
+}
+
+describe('Cancellation', () => {
+  it('should not start a run that was already cancelled', async () => {
+    const {agent, queries} = await createAgent();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(agent.invoke(QUESTION, {signal: controller.signal})).rejects.toThrow(/abort/i);
+    expect(queries).toEqual([]);
+  });
+
+  it('should stop the run when it is cancelled during an LLM call', async () => {
+    const {agent, llm, queries} = await createAgent();
+    const controller = new AbortController();
+    // Cancelled while the model is picking the query, so the query is never sent
+    let calls = 0;
+    llm.callbacks = [
+      ...(llm.callbacks as BaseCallbackHandler[]),
+      BaseCallbackHandler.fromMethods({
+        handleChatModelStart: () => {
+          if (++calls === 2) {
+            controller.abort();
+          }
+        },
+      }),
+    ];
+
+    await expect(agent.invokeStructured(QUESTION, {signal: controller.signal})).rejects.toThrow(/abort/i);
+    expect(calls).toBe(2);
+    expect(queries).toEqual([]);
+  });
+
+  it('should end a stream when it is cancelled', async () => {
+    const {agent, queries} = await createAgent();
+    const controller = new AbortController();
+
+    const consume = async () => {
+      for await (const event of agent.stream(QUESTION, {signal: controller.signal})) {
+        if (event.type === 'tool_end') {
+          controller.abort();
+        }
+      }
+    };
+
+    await expect(consume()).rejects.toThrow(/abort/i);
+    expect(queries).toEqual([]);
+  });
+});
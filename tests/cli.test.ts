@@ -0,0 +1,166 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {mkdtemp, readFile, rm} from 'fs/promises';
+import {tmpdir} from 'os';
+import path from 'path';
+import {PassThrough} from 'stream';
+import {describe, it, expect, beforeAll, afterAll} from '@jest/globals';
+import {parseCliArgs, runCli} from '../src/cli.js';
+import {type CassetteHandle, openCassette} from '../src/index.js';
+import {startOpenAIServer} from './fixtures/openai-server.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+
+describe('CLI arguments', () => {
+  it('should map flags onto the agent config', () => {
+    const args = parseCliArgs(
+      ['ask', ENDPOINT, 'How many transfers?', '-m', 'gpt-4o', '--base-url', 'https://llm.example.com/v1', '-v', '1'],
+      {}
+    );
+
+    expect(args).toEqual({
+      command: 'ask',
+      args: [ENDPOINT, 'How many transfers?'],
+      llm: {model: 'gpt-4o', baseUrl: 'https://llm.example.com/v1'},
+      verbose: 1,
+      projectsFile: '.sq-graphql-agent/projects.json',
+      help: false,
+    });
+  });
+
+  it('should default to the environment', () => {
+    const args = parseCliArgs(['repl', ENDPOINT], {LLM_MODEL: 'glm-4', PROJECTS_FILE: '/tmp/projects.json'});
+
+    expect(args.llm).toEqual({model: 'glm-4'});
+    expect(args.projectsFile).toBe('/tmp/projects.json');
+  });
+
+  it('should reject invalid verbose levels', () => {
+    expect(() => parseCliArgs(['ask', '-v', '3'], {})).toThrow('Invalid verbose level "3"');
+  });
+});
+
+// The recorded LLM responses are replayed in order, so the tests below run as one recorded session
+describe('CLI commands', () => {
+  let cassette: CassetteHandle;
+  let dir: string;
+  let projectsFile: string;
+
+  const run = async (...argv: string[]) => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const output = {stdout: '', stderr: ''};
+    stdout.on('data', (chunk: Buffer) => (output.stdout += chunk.toString()));
+    stderr.on('data', (chunk: Buffer) => (output.stderr += chunk.toString()));
+    const code = await runCli([...argv, '--projects-file', projectsFile], {
+      stdin: new PassThrough(),
+      stdout,
+      stderr,
+      llm: cassette.llm,
+      fetch: cassette.fetch,
+    });
+    return {code, ...output};
+  };
+
+  beforeAll(async () => {
+    cassette = await openCassette(CASSETTE, 'replay');
+    dir = await mkdtemp(path.join(tmpdir(), 'sq-graphql-agent-cli-'));
+    projectsFile = path.join(dir, 'projects.json');
+  });
+
+  afterAll(async () => {
+    await rm(dir, {recursive: true, force: true});
+  });
+
+  it('should initialize and save a project without its credential', async () => {
+    const {code, stdout} = await run('init', ENDPOINT, '--authorization', 'Bearer secret-token');
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Polkadot Transfers (QmW3JqvJkVWhKkYGu8EpcAb4xKx7i8ZRC5GSJg5mtRUhpC, subql)');
+    const content = await readFile(projectsFile, 'utf-8');
+    const saved = JSON.parse(content) as Record<string, {domainName: string}>;
+    expect(Object.values(saved).map((config) => config.domainName)).toEqual(['Polkadot Transfers']);
+    expect(content).not.toContain('secret-token');
+  });
+
+  it('should answer a question with the saved project', async () => {
+    const {code, stderr, stdout} = await run('ask', ENDPOINT, 'Show me the 3 largest transfers');
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('The 3 largest transfers are');
+    expect(stderr).toContain('→ graphql_query_validator');
+  });
+
+  it('should print the schema info', async () => {
+    const {code, stdout} = await run('schema', ENDPOINT);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('type Transfer @entity');
+  });
+
+  it('should fail with usage on unknown commands', async () => {
+    const {code, stderr} = await run('deploy', ENDPOINT);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('Unknown command "deploy"');
+    expect(stderr).toContain('Usage: sq-graphql-agent');
+  });
+
+  it('should fail with usage on unknown options', async () => {
+    const {code, stderr} = await run('ask', ENDPOINT, '--modle', 'gpt-4o');
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("Unknown option '--modle'");
+    expect(stderr).toContain('Usage: sq-graphql-agent');
+    expect(stderr).not.toContain('Error:');
+  });
+});
+
+// Without an injected model the CLI resolves the OpenAI provider from flags and environment, as a user runs it
+describe('CLI with the OpenAI provider', () => {
+  const env = {...process.env};
+  let server: Awaited<ReturnType<typeof startOpenAIServer>>;
+  let dir: string;
+
+  beforeAll(async () => {
+    server = await startOpenAIServer(({body}) =>
+      JSON.stringify(body.messages).includes('Analyze this GraphQL indexing project')
+        ? JSON.stringify({
+            domain_name: 'Polkadot Transfers',
+            domain_capabilities: ['Largest transfers by amount'],
+            decline_message: "I'm specialized in Polkadot balance transfers.",
+          })
+        : 'Transfers are indexed from block 1.'
+    );
+    dir = await mkdtemp(path.join(tmpdir(), 'sq-graphql-agent-cli-'));
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_API_BASE = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await server.close();
+    await rm(dir, {recursive: true, force: true});
+  });
+
+  it('should authenticate with the API key from $OPENAI_API_KEY', async () => {
+    const cassette = await openCassette(CASSETTE, 'replay');
+    const stdout = new PassThrough();
+    let output = '';
+    stdout.on('data', (chunk: Buffer) => (output += chunk.toString()));
+
+    const argv = ['ask', ENDPOINT, 'Since when are transfers indexed?', '--projects-file', path.join(dir, 'p.json')];
+    const code = await runCli(argv, {
+      stdin: new PassThrough(),
+      stdout,
+      stderr: new PassThrough(),
+      fetch: cassette.fetch,
+    });
+
+    expect(code).toBe(0);
+    expect(output).toContain('Transfers are indexed from block 1.');
+    expect(server.requests.length).toBeGreaterThanOrEqual(2);
+    expect(server.requests.every(({headers}) => headers.authorization === 'Bearer sk-test')).toBe(true);
+  });
+});
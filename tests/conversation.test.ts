@@ -0,0 +1,160 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect} from '@jest/globals';
+import {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import {AIMessage, type BaseMessage, HumanMessage, ToolMessage} from '@langchain/core/messages';
+import {
+  type ConversationStore,
+  createGraphQLAgent,
+  InMemoryConversationStore,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  openCassette,
+} from '../src/index.js';
+import {trimHistory} from '../src/conversation.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+const QUESTION = 'Show me the 3 largest transfers';
+const FOLLOW_UP = 'What is the weather in Berlin today?';
+
+// Every agent replays the cassette from the start: the answer to QUESTION, then the decline of FOLLOW_UP
+async function createAgent(store: ConversationStore, maxHistoryTokens?: number) {
+  const cassette = await openCassette(CASSETTE, 'replay');
+  const config = await initializeProjectConfig(
+    ENDPOINT,
+    new InMemoryPersistentService(),
+    cassette.llm,
+    undefined,
+    undefined,
+    {fetch: cassette.fetch}
+  );
+  // Messages of every LLM call, so tests can check the history the model was given
+  const prompts: BaseMessage[][] = [];
+  cassette.llm.callbacks = [
+    BaseCallbackHandler.fromMethods({
+      handleChatModelStart: (_llm, messages) => {
+        prompts.push(messages[0] ?? []);
+      },
+    }),
+  ];
+  const agent = createGraphQLAgent(config, {
+    llm: cassette.llm,
+    verbose: 0,
+    fetch: cassette.fetch,
+    conversation: {store, ...(maxHistoryTokens !== undefined ? {maxHistoryTokens} : {})},
+  });
+  return {agent, config, prompts};
+}
+
+describe('Multi-turn sessions', () => {
+  it('should continue a session with the previous turns', async () => {
+    const store = new InMemoryConversationStore();
+    const {agent, config, prompts} = await createAgent(store, 100_000);
+    const session = agent.createSession();
+
+    expect((await session.invokeStructured(QUESTION)).answer).toContain('The 3 largest transfers are');
+    expect(await session.invoke(FOLLOW_UP)).toBe(config.declineMessage);
+
+    // The follow-up is asked after the first question with its tool calls and answer
+    const followUp = prompts.at(-1) ?? [];
+    expect(followUp.map((message) => message.getType())).toEqual([
+      'system',
+      'human',
+      'ai',
+      'tool',
+      'ai',
+      'tool',
+      'ai',
+      'human',
+    ]);
+    expect(followUp[1]?.content).toBe(QUESTION);
+    expect(followUp[6]?.content).toContain('The 3 largest transfers are');
+
+    const stored = await store.load(session.threadId);
+    expect(stored?.filter(({type}) => type === 'human').map(({data}) => data.content)).toEqual([QUESTION, FOLLOW_UP]);
+    expect(stored?.some(({type}) => type === 'system')).toBe(false);
+  });
+
+  it('should keep separate threads apart', async () => {
+    const {agent, prompts} = await createAgent(new InMemoryConversationStore(), 100_000);
+
+    await agent.createSession().invoke(QUESTION);
+    await agent.createSession().invoke(FOLLOW_UP);
+
+    expect(prompts.at(-1)?.map((message) => message.getType())).toEqual(['system', 'human']);
+  });
+
+  it('should store the whole thread and shorten it when it is loaded', async () => {
+    const store = new InMemoryConversationStore();
+    const {agent, prompts} = await createAgent(store, 300);
+    const session = agent.createSession();
+
+    await session.invoke(QUESTION);
+    await session.invoke(FOLLOW_UP);
+
+    const stored = await store.load(session.threadId);
+    expect(stored?.map(({type}) => type)).toEqual(['human', 'ai', 'tool', 'ai', 'tool', 'ai', 'human', 'ai']);
+
+    // The schema and query results don't fit the budget, the question and answer of the first turn still do
+    const followUp = prompts.at(-1) ?? [];
+    expect(followUp.map((message) => message.getType())).toEqual(['system', 'human', 'ai', 'human']);
+    expect(followUp[1]?.content).toBe(QUESTION);
+    expect(followUp[2]?.content).toContain('The 3 largest transfers are');
+
+    await store.delete(session.threadId);
+    expect(await store.load(session.threadId)).toBeUndefined();
+  });
+});
+
+describe('History budget', () => {
+  const turn = (question: string, output: string, answer: string) => [
+    new HumanMessage(question),
+    new AIMessage({
+      content: '',
+      tool_calls: [{id: `call_${question.length}`, name: 'graphql_query_validator', args: {}}],
+    }),
+    new ToolMessage({content: output, tool_call_id: `call_${question.length}`, name: 'graphql_query_validator'}),
+    new AIMessage(answer),
+  ];
+
+  it('should shorten large tool results before dropping turns', async () => {
+    const history = [
+      ...turn('How many transfers are there?', '{"transfers":{"totalCount":42}}', 'There are 42 transfers.'),
+      ...turn('List all transfers', JSON.stringify({rows: 'x'.repeat(20_000)}), 'Here are all transfers.'),
+    ];
+
+    const trimmed = await trimHistory(history, 4000);
+
+    expect(trimmed.map((message) => message.getType())).toEqual([
+      'human',
+      'ai',
+      'tool',
+      'ai',
+      'human',
+      'ai',
+      'tool',
+      'ai',
+    ]);
+    expect(trimmed[2]?.content).toBe('{"transfers":{"totalCount":42}}');
+    expect(String(trimmed[6]?.content).length).toBeLessThan(600);
+    expect(trimmed[7]?.content).toBe('Here are all transfers.');
+  });
+
+  it('should keep the questions and answers when the shortened tool results are still over the budget', async () => {
+    const history = [
+      ...turn('How many transfers are there?', 'y'.repeat(20_000), 'There are 42 transfers.'),
+      ...turn('List all transfers', 'x'.repeat(20_000), 'Here are all transfers.'),
+    ];
+
+    const trimmed = await trimHistory(history, 200);
+
+    expect(trimmed.map((message) => message.content)).toEqual([
+      'How many transfers are there?',
+      'There are 42 transfers.',
+      'List all transfers',
+      'Here are all transfers.',
+    ]);
+  });
+});
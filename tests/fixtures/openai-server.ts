@@ -0,0 +1,64 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {createServer, type IncomingHttpHeaders} from 'http';
+import type {AddressInfo} from 'net';
+
+export type OpenAIRequest = {
+  headers: IncomingHttpHeaders;
+  body: {model: string; stream?: boolean; messages: unknown[]};
+};
+
+/**
+ * Minimal OpenAI chat completions server answering every request with the text of `reply`,
+ * so tests can go through the real provider resolution and check what the client sends.
+ */
+export async function startOpenAIServer(reply: (request: OpenAIRequest) => string) {
+  const requests: OpenAIRequest[] = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+    req.on('end', () => {
+      const request = {headers: req.headers, body: JSON.parse(raw) as OpenAIRequest['body']};
+      requests.push(request);
+      if (req.headers.authorization !== `Bearer ${process.env.OPENAI_API_KEY}`) {
+        res.writeHead(401, {'content-type': 'application/json'});
+        res.end(JSON.stringify({error: {message: 'Incorrect API key provided', type: 'invalid_request_error'}}));
+        return;
+      }
+
+      const content = reply(request);
+      const base = {id: 'chatcmpl-test', created: 0, model: request.body.model};
+      if (!request.body.stream) {
+        res.writeHead(200, {'content-type': 'application/json'});
+        res.end(
+          JSON.stringify({
+            ...base,
+            object: 'chat.completion',
+            choices: [{index: 0, message: {role: 'assistant', content}, finish_reason: 'stop'}],
+            usage: {prompt_tokens: 10, completion_tokens: 5, total_tokens: 15},
+          })
+        );
+        return;
+      }
+
+      res.writeHead(200, {'content-type': 'text/event-stream'});
+      const chunk = (delta: object, finishReason: string | null) =>
+        `data: ${JSON.stringify({
+          ...base,
+          object: 'chat.completion.chunk',
+          choices: [{index: 0, delta, finish_reason: finishReason}],
+        })}\n\n`;
+      res.write(chunk({role: 'assistant', content}, null));
+      res.write(chunk({}, 'stop'));
+      res.end('data: [DONE]\n\n');
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const {port} = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: async () => new Promise((resolve) => server.close(resolve)),
+  };
+}
@@ -0,0 +1,56 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {BaseCallbackHandler} from '@langchain/core/callbacks/base';
+import type {BaseMessage, StoredMessage} from '@langchain/core/messages';
+import {
+  createReplayFetch,
+  type GraphQLProjectConfig,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  loadCassette,
+  ReplayChatModel,
+} from '../../src/index.js';
+
+export const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+export const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+export const QUESTION = 'Show me the 3 largest transfers';
+export const UNRELATED_QUESTION = 'What is the weather in Berlin today?';
+
+// Recorded LLM responses of the cassette, in the order they were recorded
+export const TURNS = {
+  analysis: 0,
+  schemaToolCall: 1,
+  queryToolCall: 2,
+  answer: 3,
+  decline: 4,
+} as const;
+
+/**
+ * Replays the recorded responses picked by `turns` in the given order, so tests can script runs the recording
+ * didn't cover, e.g. an answer right after the schema lookup. `edit` changes a response before it is replayed.
+ * `prompts` collects the messages of every LLM call.
+ */
+export async function replayTurns(turns: number[], edit: (message: StoredMessage) => StoredMessage = (m) => m) {
+  const cassette = await loadCassette(CASSETTE);
+  const picked = {
+    ...cassette,
+    llm: turns.map((turn) => edit(structuredClone(cassette.llm[turn] as StoredMessage))),
+  };
+  const prompts: BaseMessage[][] = [];
+  const llm = new ReplayChatModel(picked);
+  llm.callbacks = [
+    BaseCallbackHandler.fromMethods({
+      handleChatModelStart: (_llm, messages) => {
+        prompts.push(messages[0] ?? []);
+      },
+    }),
+  ];
+  return {llm, fetch: createReplayFetch(cassette), prompts};
+}
+
+// Project config analyzed from the recorded CID, IPFS files and analysis response
+export async function analyzeProject(): Promise<GraphQLProjectConfig> {
+  const {fetch, llm} = await replayTurns([TURNS.analysis]);
+  return initializeProjectConfig(ENDPOINT, new InMemoryPersistentService(), llm, undefined, undefined, {fetch});
+}
@@ -0,0 +1,123 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {buildSchema, introspectionFromSchema} from 'graphql';
+import {deriveEntitySchema, detectProviderFromIntrospection} from '../src/introspection.js';
+import {createGraphQLSchemaInfoTool} from '../src/tools/graphql-schema-info.tool.js';
+import {type FetchFn, GraphqlProvider, InMemoryPersistentService, initializeProjectConfig} from '../src/index.js';
+
+// Trimmed down version of what Hasura generates for a transfers table
+const HASURA = introspectionFromSchema(
+  buildSchema(`
+    scalar numeric
+    enum order_by { asc desc }
+    enum transfers_select_column { id amount }
+    input numeric_comparison_exp { _gt: numeric _eq: numeric }
+    input transfers_bool_exp { amount: numeric_comparison_exp _and: [transfers_bool_exp!] }
+    input transfers_order_by { amount: order_by }
+    type transfers { id: String! amount: numeric! account: accounts }
+    type accounts { id: String! transfers(limit: Int): [transfers!]! transfers_aggregate: transfers_aggregate! }
+    type transfers_aggregate_fields { count: Int! }
+    type transfers_aggregate { aggregate: transfers_aggregate_fields nodes: [transfers!]! }
+    type query_root {
+      transfers(limit: Int, order_by: [transfers_order_by!], where: transfers_bool_exp): [transfers!]!
+      transfers_aggregate(where: transfers_bool_exp): transfers_aggregate!
+      transfers_by_pk(id: String!): transfers
+    }
+    schema { query: query_root }
+  `)
+);
+
+// PostGraphile connections with Relay node lookup
+const POSTGRAPHILE = introspectionFromSchema(
+  buildSchema(`
+    scalar Cursor
+    interface Node { nodeId: ID! }
+    type PageInfo { hasNextPage: Boolean! endCursor: Cursor }
+    enum TransfersOrderBy { AMOUNT_ASC AMOUNT_DESC }
+    input TransferFilter { amount: Int }
+    type Transfer implements Node { nodeId: ID! id: String! amount: Int! }
+    type TransfersEdge { cursor: Cursor node: Transfer }
+    type TransfersConnection { edges: [TransfersEdge!]! pageInfo: PageInfo! totalCount: Int! }
+    type Query implements Node {
+      query: Query!
+      nodeId: ID!
+      node(nodeId: ID!): Node
+      transfers(first: Int, orderBy: [TransfersOrderBy!], filter: TransferFilter): TransfersConnection
+      transfer(id: String!): Transfer
+    }
+  `)
+);
+
+describe('Introspection-only projects', () => {
+  it('should derive a compact entity schema without the generated boilerplate', () => {
+    expect(deriveEntitySchema(HASURA)).toBe(`type Query {
+  transfers(limit: Int, order_by: [transfers_order_by!], where: transfers_bool_exp): [transfers!]!
+  transfers_aggregate(where: transfers_bool_exp): transfers_aggregate!
+  transfers_by_pk(id: String!): transfers
+}
+
+scalar numeric
+
+type transfers {
+  id: String!
+  amount: numeric!
+  account: accounts
+}
+
+type accounts {
+  id: String!
+  transfers: [transfers!]!
+}`);
+
+    const postgraphile = deriveEntitySchema(POSTGRAPHILE);
+    expect(postgraphile).toContain(
+      'transfers(first: Int, orderBy: [TransfersOrderBy!], filter: TransferFilter): [Transfer!]! @connection'
+    );
+    expect(postgraphile).not.toMatch(/Edge|PageInfo|Cursor|nodeId: ID!\n {2}node/);
+  });
+
+  it('should detect the provider from schema signatures', () => {
+    expect(detectProviderFromIntrospection(HASURA)).toBe(GraphqlProvider.HASURA);
+    expect(detectProviderFromIntrospection(POSTGRAPHILE)).toBe(GraphqlProvider.POSTGRAPHILE);
+    expect(detectProviderFromIntrospection(introspectionFromSchema(buildSchema('type Query { ping: String }')))).toBe(
+      GraphqlProvider.UNKNOWN
+    );
+  });
+
+  it('should initialize an endpoint without a CID from its introspection', async () => {
+    const fetch: FetchFn = async (_input, init) => {
+      const {query} = JSON.parse(init?.body as string) as {query: string};
+      return Promise.resolve(Response.json({data: query.includes('__schema') ? HASURA : {}}));
+    };
+    const config = await initializeProjectConfig(
+      'https://hasura.example.com/v1/graphql',
+      new InMemoryPersistentService(),
+      new FakeListChatModel({
+        responses: [
+          JSON.stringify({
+            domain_name: 'Token Transfers',
+            domain_capabilities: ['Transfers by amount'],
+            decline_message: 'I only know about token transfers.',
+          }),
+        ],
+      }),
+      undefined,
+      undefined,
+      {fetch}
+    );
+
+    expect(config).toMatchObject({
+      schemaSource: 'introspection',
+      nodeType: GraphqlProvider.HASURA,
+      domainName: 'Token Transfers',
+      schemaContent: deriveEntitySchema(HASURA),
+    });
+    expect(config.cid).toMatch(/^introspection-[0-9a-f]{32}$/);
+
+    const info = (await createGraphQLSchemaInfoTool(config).invoke({})) as string;
+    expect(info).toContain('provider: hasura');
+    expect(info).toContain('transfers_by_pk(id: "0x1")');
+  });
+});
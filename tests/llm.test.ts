@@ -0,0 +1,50 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect, afterAll, afterEach, beforeAll} from '@jest/globals';
+import {resolveLLMProvider} from '../src/llm.js';
+import {startOpenAIServer} from './fixtures/openai-server.js';
+
+describe('OpenAI provider', () => {
+  const env = {...process.env};
+  let server: Awaited<ReturnType<typeof startOpenAIServer>>;
+
+  beforeAll(async () => {
+    server = await startOpenAIServer(() => 'pong');
+  });
+
+  afterEach(() => {
+    process.env = {...env};
+    server.requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should read the API key and base URL from the environment for both models', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_API_BASE = server.baseUrl;
+    const provider = resolveLLMProvider({model: 'gpt-4o-mini'}, {'x-user-id': 'acme'});
+
+    expect((await provider.getAgentModel().invoke('ping')).content).toBe('pong');
+    expect((await provider.getAnalysisModel().invoke('ping')).content).toBe('pong');
+    expect(server.requests.map(({headers}) => [headers.authorization, headers['x-user-id']])).toEqual([
+      ['Bearer sk-test', 'acme'],
+      ['Bearer sk-test', 'acme'],
+    ]);
+  });
+
+  it('should prefer the configured key and base URL', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_API_BASE = 'http://127.0.0.1:1/v1';
+    const provider = resolveLLMProvider({model: 'gpt-4o-mini', apiKey: 'sk-test', baseUrl: server.baseUrl});
+
+    expect((await provider.getAgentModel().invoke('ping')).content).toBe('pong');
+  });
+
+  it('should require an API key', () => {
+    delete process.env.OPENAI_API_KEY;
+
+    expect(() => resolveLLMProvider({model: 'gpt-4o-mini'}).getAgentModel()).toThrow('OPENAI_API_KEY is required');
+  });
+});
@@ -0,0 +1,88 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {analyzeProjectWithLLM} from '../src/llm.js';
+import {localizedDeclineMessage, resolveLocale} from '../src/locale.js';
+import {buildSystemPrompt} from '../src/prompts.js';
+import {createGraphQLAgent, type GraphQLProjectConfig, GraphqlProvider, openCassette} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+
+const config = {
+  endpoint: 'https://api.example.com/transfers-demo/graphql',
+  cid: 'QmW3JqvJkVWhKkYGu8EpcAb4xKx7i8ZRC5GSJg5mtRUhpC',
+  nodeType: GraphqlProvider.SUBQL,
+  schemaContent: 'type Transfer @entity { id: ID! amount: BigInt! }',
+  updatedAt: '2025-01-31T00:00:00.000Z',
+  domainName: 'Polkadot Transfers',
+  domainCapabilities: ['Largest transfers by amount'],
+  declineMessage: "I'm specialized in Polkadot balance transfers.",
+  declineMessages: {zh: '我专注于波卡转账数据。', de: 'Ich bin auf Polkadot-Überweisungen spezialisiert.'},
+} as GraphQLProjectConfig;
+
+describe('Locales', () => {
+  it('should canonicalize and validate locales', () => {
+    expect(resolveLocale('zh-cn')).toBe('zh-CN');
+    expect(() => resolveLocale('not a locale')).toThrow('Invalid locale "not a locale"');
+  });
+
+  it('should fall back from the locale to its language and then to English', () => {
+    expect(localizedDeclineMessage(config, 'zh-TW')).toBe('我专注于波卡转账数据。');
+    expect(localizedDeclineMessage(config, 'ja-JP')).toBe(config.declineMessage);
+    expect(localizedDeclineMessage(config)).toBe(config.declineMessage);
+  });
+
+  it('should add the language and formatting rules to the system prompt', () => {
+    const german = buildSystemPrompt(config, 0, 4, 'de-DE');
+    expect(german).toContain('Always answer in German (Germany)');
+    expect(german).toContain('1.234.567,89');
+    expect(german).toContain('Decline unrelated requests with: Ich bin auf Polkadot-Überweisungen spezialisiert.');
+    expect(german).not.toContain('Translate the decline message');
+
+    expect(buildSystemPrompt(config, 0, 4, 'ja-JP')).toContain('Translate the decline message into Japanese');
+    expect(buildSystemPrompt(config, 0, 4)).not.toContain('LANGUAGE AND FORMATTING');
+  });
+
+  it('should keep the requested decline message translations from the analysis', async () => {
+    const model = new FakeListChatModel({
+      responses: [
+        JSON.stringify({
+          domain_name: 'Polkadot Transfers',
+          domain_capabilities: ['Largest transfers by amount'],
+          decline_message: 'Only transfers.',
+          decline_messages: {zh: '仅限转账。', de: 'Nur Überweisungen.', fr: 'Seulement les transferts.'},
+        }),
+      ],
+    });
+    const analysis = await analyzeProjectWithLLM(
+      {},
+      config.schemaContent,
+      model,
+      undefined,
+      undefined,
+      [],
+      ['zh', 'de', 'ja']
+    );
+
+    expect(analysis.declineMessages).toEqual({zh: '仅限转账。', de: 'Nur Überweisungen.', ja: 'Only transfers.'});
+  });
+
+  it('should decline in the language of the invocation', async () => {
+    const cassette = await openCassette(CASSETTE, 'replay');
+    const agent = createGraphQLAgent(config, {
+      llm: cassette.llm,
+      verbose: 0,
+      locale: 'de-DE',
+      scopeClassifier: {
+        model: new FakeListChatModel({responses: ['{"scope": "out_of_scope", "confidence": 0.9}']}),
+      },
+    });
+
+    const result = await agent.invokeStructured('今天柏林天气如何？', {locale: 'zh-CN'});
+
+    expect(result).toMatchObject({answer: '我专注于波卡转账数据。', declined: true});
+    await expect(agent.invoke('Hello', {locale: 'xx_invalid'})).rejects.toThrow('Invalid locale');
+  });
+});
@@ -0,0 +1,107 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {createServer, type Server} from 'http';
+import type {AddressInfo} from 'net';
+import path from 'path';
+import {describe, it, expect, beforeAll, afterAll} from '@jest/globals';
+import {Client} from '@modelcontextprotocol/sdk/client/index.js';
+import {StreamableHTTPClientTransport} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {InMemoryTransport} from '@modelcontextprotocol/sdk/inMemory.js';
+import type {Transport} from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  type CassetteHandle,
+  createGraphQLMcpRequestHandler,
+  createGraphQLMcpServer,
+  type GraphQLProjectConfig,
+  initializeProjectConfig,
+  InMemoryPersistentService,
+  MCP_CAPABILITIES_URI,
+  openCassette,
+} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+// The query recorded in the cassette
+const QUERY = '{ transfers(first: 3, orderBy: AMOUNT_DESC) { nodes { id from to amount blockNumber } } }';
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const [content] = result.content as Array<{type: string; text: string}>;
+  return content?.text ?? '';
+}
+
+describe('GraphQL MCP server', () => {
+  let cassette: CassetteHandle;
+  let project: GraphQLProjectConfig;
+  let client: Client;
+
+  beforeAll(async () => {
+    cassette = await openCassette(CASSETTE, 'replay');
+    project = await initializeProjectConfig(
+      ENDPOINT,
+      new InMemoryPersistentService(),
+      cassette.llm,
+      undefined,
+      undefined,
+      {fetch: cassette.fetch}
+    );
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createGraphQLMcpServer(project, {fetch: cassette.fetch}).connect(serverTransport);
+    client = new Client({name: 'test-client', version: '1.0.0'});
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('should list the GraphQL tools', async () => {
+    const {tools} = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['graphql_schema_info', 'graphql_query_validator']);
+    expect(tools[1]?.inputSchema.properties).toHaveProperty('query');
+  });
+
+  it('should validate and execute a query', async () => {
+    const result = await client.callTool({name: 'graphql_query_validator', arguments: {query: QUERY}});
+
+    expect(result.isError).toBe(false);
+    expect(textOf(result)).toContain('Query executed successfully');
+    expect(textOf(result)).toContain('15kUt2i86LHRWCkE3D9Bg1HZAoc2smhn1fwPzDERTb1BXAkX');
+  });
+
+  it('should report invalid queries as errors', async () => {
+    const result = await client.callTool({
+      name: 'graphql_query_validator',
+      arguments: {query: '{ unknownEntities { id } }'},
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('unknownEntities');
+  });
+
+  it('should expose the project capabilities', async () => {
+    const {contents} = await client.readResource({uri: MCP_CAPABILITIES_URI});
+    const capabilities = JSON.parse((contents[0] as {text: string}).text) as GraphQLProjectConfig;
+
+    expect(capabilities).toMatchObject({endpoint: ENDPOINT, cid: project.cid, domainName: 'Polkadot Transfers'});
+    expect(capabilities.domainCapabilities).toContain('Largest transfers by amount');
+  });
+
+  it('should serve the tools over streamable HTTP', async () => {
+    const handler = createGraphQLMcpRequestHandler(project, {fetch: cassette.fetch});
+    const server: Server = createServer((req, res) => void handler(req, res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const httpClient = new Client({name: 'test-client', version: '1.0.0'});
+    try {
+      const {port} = server.address() as AddressInfo;
+      await httpClient.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)) as Transport);
+      const result = await httpClient.callTool({name: 'graphql_schema_info', arguments: {}});
+
+      expect(textOf(result)).toContain('type Transfer @entity');
+    } finally {
+      await httpClient.close();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
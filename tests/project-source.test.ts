@@ -0,0 +1,91 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import path from 'path';
+import {describe, it, expect, afterAll, beforeAll} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {
+  type FetchFn,
+  GraphqlProvider,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  type ProjectSource,
+} from '../src/index.js';
+
+const ENDPOINT = 'http://localhost:3000/graphql';
+const SCHEMA = 'type Transfer @entity { id: ID! amount: BigInt! }';
+const ANALYSIS = JSON.stringify({
+  domain_name: 'Polkadot Transfers',
+  domain_capabilities: ['Largest transfers by amount'],
+  decline_message: "I'm specialized in Polkadot balance transfers.",
+});
+
+// A local node without a deployment CID, IPFS gateways must not be called
+const requested: string[] = [];
+const fetch: FetchFn = async (input) => {
+  const url = String(input);
+  requested.push(url);
+  if (url !== ENDPOINT) {
+    return Promise.reject(new Error(`Unexpected request to ${url}`));
+  }
+  return Promise.resolve(Response.json({data: {}}));
+};
+
+async function initialize(source: ProjectSource) {
+  return initializeProjectConfig(
+    ENDPOINT,
+    new InMemoryPersistentService(),
+    new FakeListChatModel({responses: [ANALYSIS]}),
+    undefined,
+    undefined,
+    {fetch, source}
+  );
+}
+
+describe('Local project sources', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'sq-graphql-agent-'));
+    await writeFile(
+      path.join(directory, 'project.yaml'),
+      'specVersion: 1.0.0\nname: transfers\nrunner:\n  node:\n    name: "@subql/node"\nschema:\n  file: ./schema.graphql\n'
+    );
+    await writeFile(path.join(directory, 'schema.graphql'), SCHEMA);
+  });
+
+  afterAll(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  it('should read the manifest and the relative schema file from a project directory', async () => {
+    const config = await initialize({directory});
+
+    expect(config).toMatchObject({
+      schemaContent: SCHEMA,
+      nodeType: GraphqlProvider.SUBQL,
+      domainName: 'Polkadot Transfers',
+    });
+    expect(config.cid).toMatch(/^local-[0-9a-f]{32}$/);
+    expect((await initialize({directory})).cid).toBe(config.cid);
+    expect(requested.every((url) => url === ENDPOINT)).toBe(true);
+  });
+
+  it('should take the manifest and schema as strings', async () => {
+    const config = await initialize({
+      manifest: 'specVersion: 0.0.5\nschema:\n  file: ./schema.graphql\n',
+      schema: `${SCHEMA}\ntype Account @entity { id: ID! }`,
+    });
+
+    expect(config.nodeType).toBe(GraphqlProvider.THE_GRAPH);
+    expect(config.schemaContent).toContain('type Account');
+    expect(config.cid).not.toBe((await initialize({directory})).cid);
+  });
+
+  it('should name the manifest files it looked for', async () => {
+    await expect(initialize({directory: tmpdir(), manifestFile: 'missing.yaml'})).rejects.toThrow(
+      `No missing.yaml found in ${tmpdir()}`
+    );
+  });
+});
@@ -0,0 +1,148 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect, afterEach, beforeEach, jest} from '@jest/globals';
+import type {BaseChatModel} from '@langchain/core/language_models/chat_models';
+import {AIMessage, HumanMessage} from '@langchain/core/messages';
+import {RunnableLambda} from '@langchain/core/runnables';
+import {createBudgetedModel, createRunBudget, takeGraphQLCall} from '../src/budget.js';
+import {
+  AnswerCache,
+  createGraphQLAgent,
+  type GraphQLAgentEvent,
+  InMemoryAnswerCacheStore,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  openCassette,
+  QuotaLimiter,
+  type QuotaOptions,
+} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+const QUESTION = 'Show me the 3 largest transfers';
+
+async function createAgent(options: QuotaOptions, answerCache?: AnswerCache) {
+  const cassette = await openCassette(CASSETTE, 'replay');
+  const config = await initializeProjectConfig(
+    ENDPOINT,
+    new InMemoryPersistentService(),
+    cassette.llm,
+    undefined,
+    undefined,
+    {fetch: cassette.fetch}
+  );
+  const quota = new QuotaLimiter(options);
+  return {
+    quota,
+    agent: createGraphQLAgent(config, {
+      llm: cassette.llm,
+      verbose: 0,
+      fetch: cassette.fetch,
+      quota,
+      ...(answerCache ? {answerCache} : {}),
+    }),
+  };
+}
+
+describe('Quotas', () => {
+  // Half way through a minute, so the requests of a test don't straddle two windows
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2025, 0, 31, 12, 0, 30));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should limit the questions per minute of each tenant', async () => {
+    const quota = new QuotaLimiter({requestsPerMinute: 2});
+
+    expect(await quota.admit('acme')).toBeUndefined();
+    expect(await quota.admit('acme')).toBeUndefined();
+    const exceeded = await quota.admit('acme');
+
+    expect(exceeded).toEqual({limit: 'requests_per_minute', tenant: 'acme', max: 2, used: 3, retryAfterMs: 30_000});
+    expect(await quota.admit('globex')).toBeUndefined();
+  });
+
+  it('should turn a tenant away once its daily tokens are used up', async () => {
+    const quota = new QuotaLimiter({
+      tokensPerDay: 1000,
+      limitsFor: (tenant) => (tenant === 'enterprise' ? {tokensPerDay: 5000} : {}),
+    });
+    await quota.recordTokens('acme', 1200);
+    await quota.recordTokens('enterprise', 1200);
+
+    expect(await quota.admit('acme')).toMatchObject({limit: 'tokens_per_day', max: 1000, used: 1200});
+    expect(await quota.admit('enterprise')).toBeUndefined();
+    expect(await quota.tokensUsedToday('enterprise')).toBe(1200);
+  });
+
+  it('should return the exceeded quota instead of running the agent', async () => {
+    const {agent, quota} = await createAgent({requestsPerMinute: 1});
+
+    const first = await agent.invokeStructured(QUESTION, {tenant: 'acme'});
+    expect(first.quotaExceeded).toBeUndefined();
+    expect(await quota.tokensUsedToday('acme')).toBe(first.usage.totalTokens);
+
+    const second = await agent.invokeStructured(QUESTION, {tenant: 'acme'});
+    expect(second).toMatchObject({
+      answer: 'Rate limit exceeded: at most 1 questions per minute. Try again in 30 seconds.',
+      quotaExceeded: {limit: 'requests_per_minute', tenant: 'acme'},
+      usage: {totalTokens: 0},
+    });
+
+    const events: GraphQLAgentEvent[] = [];
+    for await (const event of agent.stream(QUESTION, {tenant: 'acme'})) {
+      events.push(event);
+    }
+    expect(events).toEqual([
+      expect.objectContaining({type: 'final', quotaExceeded: {...second.quotaExceeded, used: 3}}),
+    ]);
+  });
+
+  it('should count questions answered from the answer cache', async () => {
+    const {agent} = await createAgent({requestsPerMinute: 2}, new AnswerCache({store: new InMemoryAnswerCacheStore()}));
+
+    expect((await agent.invokeStructured(QUESTION)).cached).toBe(false);
+    expect((await agent.invokeStructured(QUESTION)).cached).toBe(true);
+    expect(await agent.invokeStructured(QUESTION)).toMatchObject({
+      cached: false,
+      quotaExceeded: {limit: 'requests_per_minute', tenant: 'default', used: 3},
+    });
+
+    // Questions of a session are admitted by the cache wrapper as well
+    const session = agent.createSession();
+    expect(await session.invoke(QUESTION)).toMatch(/^Rate limit exceeded/);
+  });
+
+  it('should stop executing queries once the GraphQL calls of the question are used up', async () => {
+    const {agent} = await createAgent({graphqlCallsPerQuestion: 0});
+
+    const answer = await agent.invokeStructured(QUESTION);
+
+    expect(answer).toMatchObject({
+      partial: true,
+      quotaExceeded: {limit: 'graphql_calls_per_question', tenant: 'default', max: 0},
+    });
+    expect(answer.queries).toEqual([expect.objectContaining({ok: false, errors: ['GraphQL call quota exceeded']})]);
+  });
+
+  it('should switch tool calls off once the GraphQL call quota refused a query', async () => {
+    // Replies tell the final answer step, bound with tool_choice none, from a step that can call tools
+    const llm = {
+      bindTools: (_tools: unknown, kwargs?: {tool_choice?: string}) =>
+        RunnableLambda.from(() => new AIMessage(kwargs?.tool_choice === 'none' ? 'final answer' : 'tool call')),
+    } as unknown as BaseChatModel;
+    const selectModel = createBudgetedModel(llm, []);
+    const budget = createRunBudget({}, 1);
+    const state = {messages: [new HumanMessage(QUESTION)]};
+
+    expect(takeGraphQLCall(budget)).toBe(true);
+    expect((await selectModel(state, {configurable: {budget}}).invoke(state.messages)).content).toBe('tool call');
+
+    expect(takeGraphQLCall(budget)).toBe(false);
+    expect((await selectModel(state, {configurable: {budget}}).invoke(state.messages)).content).toBe('final answer');
+  });
+});
@@ -0,0 +1,107 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect, afterEach, jest} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {buildSchema, introspectionFromSchema} from 'graphql';
+import {
+  type AnalysisPolicy,
+  type FetchFn,
+  type GraphQLProjectConfig,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  ProjectRefresher,
+} from '../src/index.js';
+
+const ENDPOINT = 'https://api.example.com/transfers/graphql';
+const INTROSPECTION = introspectionFromSchema(
+  buildSchema('type Transfer { id: ID! amount: Int! } type Query { transfers(first: Int): [Transfer!]! }')
+);
+const DAY_MS = 24 * 60 * 60_000;
+
+const fetch: FetchFn = async () => Promise.resolve(Response.json({data: INTROSPECTION}));
+
+function analysis(domainName: string) {
+  return JSON.stringify({
+    domain_name: domainName,
+    domain_capabilities: ['Largest transfers by amount'],
+    decline_message: "I'm specialized in token transfers.",
+  });
+}
+
+async function setup(responses: string[], analysisPolicy: AnalysisPolicy = {}) {
+  const persistentService = new InMemoryPersistentService();
+  const llm = new FakeListChatModel({responses});
+  const config = await initializeProjectConfig(ENDPOINT, persistentService, llm, undefined, undefined, {
+    fetch,
+    introspectionOnly: true,
+    analysisPolicy,
+  });
+  const refreshed: GraphQLProjectConfig[] = [];
+  const refresher = new ProjectRefresher(persistentService, llm, {
+    fetch,
+    analysisPolicy,
+    onRefresh: (updated) => {
+      refreshed.push(updated);
+    },
+  });
+  return {config, persistentService, refresher, refreshed};
+}
+
+function advanceClock(ms: number) {
+  const now = Date.now();
+  jest.spyOn(Date, 'now').mockReturnValue(now + ms);
+}
+
+describe('Project refresher', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry a failed analysis once the backoff is over', async () => {
+    const {config, persistentService, refresher, refreshed} = await setup(['not an analysis', analysis('Transfers')]);
+    expect(config.analysisFailures).toBe(1);
+    expect(config.domainCapabilities).toBeUndefined();
+    expect(config.lastAnalysisError).toBeDefined();
+
+    expect(await refresher.refresh()).toEqual([]);
+
+    advanceClock(2 * 60_000);
+    const [retried] = await refresher.refresh();
+
+    expect(retried).toMatchObject({domainName: 'Transfers', domainCapabilities: ['Largest transfers by amount']});
+    expect(retried).not.toHaveProperty('lastAnalysisError');
+    expect(retried).not.toHaveProperty('analysisFailures');
+    expect(await persistentService.load(ENDPOINT, config.cid)).toEqual(retried);
+    expect(refreshed).toEqual([retried]);
+  });
+
+  it('should load a missing schema during the backoff without analyzing again', async () => {
+    const {config, persistentService, refresher} = await setup(['not an analysis', analysis('Transfers')]);
+    await persistentService.save(ENDPOINT, {...config, schemaContent: ''});
+
+    const [loaded] = await refresher.refresh();
+
+    expect(loaded?.schemaContent).toContain('type Transfer');
+    expect(loaded).toMatchObject({analysisFailures: 1, lastAnalysisError: config.lastAnalysisError});
+    expect(loaded?.domainCapabilities).toBeUndefined();
+  });
+
+  it('should analyze configs again once they are older than the max age', async () => {
+    const {config, refresher} = await setup([analysis('Transfers'), analysis('Token Transfers')], {maxAgeMs: DAY_MS});
+
+    expect(await refresher.refresh()).toEqual([]);
+
+    advanceClock(DAY_MS);
+    expect(await refresher.refresh()).toEqual([
+      expect.objectContaining({cid: config.cid, domainName: 'Token Transfers'}),
+    ]);
+  });
+
+  it('should analyze fresh configs again when forced', async () => {
+    const {refresher, refreshed} = await setup([analysis('Transfers'), analysis('Token Transfers')]);
+
+    await refresher.refresh(true);
+
+    expect(refreshed).toEqual([expect.objectContaining({domainName: 'Token Transfers'})]);
+  });
+});
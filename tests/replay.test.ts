@@ -0,0 +1,110 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect, beforeAll} from '@jest/globals';
+import {
+  type CassetteHandle,
+  createGraphQLAgent,
+  type GraphQLAgentEvent,
+  type GraphQLProjectConfig,
+  initializeProjectConfig,
+  type LLMUsage,
+  openCassette,
+  type PersistentService,
+  type UsageContext,
+} from '../src/index.js';
+
+// Recorded from a demo SubQuery project indexing Polkadot transfers, see tests/README.md to re-record
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+
+class InMemoryPersistentService implements PersistentService {
+  private configs = new Map<string, GraphQLProjectConfig>();
+
+  async save(endpoint: string, config: GraphQLProjectConfig): Promise<void> {
+    this.configs.set(`${endpoint}:${config.cid}`, config);
+    return Promise.resolve();
+  }
+
+  async load(endpoint: string, cid?: string): Promise<GraphQLProjectConfig | undefined> {
+    return Promise.resolve(this.configs.get(`${endpoint}:${cid}`));
+  }
+}
+
+// The recorded LLM responses are replayed in order, so the tests below run as one recorded session
+describe('GraphQL Agent replay', () => {
+  let cassette: CassetteHandle;
+  let config: GraphQLProjectConfig;
+
+  beforeAll(async () => {
+    cassette = await openCassette(CASSETTE, 'replay');
+  });
+
+  it('should initialize project config from recorded CID, IPFS and LLM responses', async () => {
+    config = await initializeProjectConfig(
+      ENDPOINT,
+      new InMemoryPersistentService(),
+      cassette.llm,
+      undefined,
+      undefined,
+      {fetch: cassette.fetch}
+    );
+
+    expect(config.cid).toBe('QmW3JqvJkVWhKkYGu8EpcAb4xKx7i8ZRC5GSJg5mtRUhpC');
+    expect(config.schemaContent).toContain('type Transfer @entity');
+    expect(config.domainName).toBe('Polkadot Transfers');
+    expect(config.domainCapabilities).toContain('Largest transfers by amount');
+    expect(config.introspectionSchema).toBeDefined();
+    expect(config.lastAnalysisError).toBeUndefined();
+    expect(config.lastAnalysisUsage).toMatchObject({promptTokens: 1450, completionTokens: 96, llmCalls: 1});
+  });
+
+  it('should answer with recorded queries and data', async () => {
+    const reported: Array<[LLMUsage, UsageContext]> = [];
+    const agent = createGraphQLAgent(config, {
+      llm: cassette.llm,
+      verbose: 0,
+      fetch: cassette.fetch,
+      usage: {
+        prices: {'gpt-4o-mini': {promptPerMillion: 0.15, completionPerMillion: 0.6}},
+        onUsage: (usage, context) => reported.push([usage, context]),
+      },
+    });
+    const result = await agent.invokeStructured('Show me the 3 largest transfers');
+
+    expect(result.answer).toContain('The 3 largest transfers are');
+    expect(result.toolCalls.map((call) => call.name)).toEqual(['graphql_schema_info', 'graphql_query_validator']);
+    expect(result.queries).toHaveLength(1);
+    expect(result.queries[0]?.ok).toBe(true);
+    expect(result.queries[0]?.query).toContain('transfers(first: 3, orderBy: AMOUNT_DESC)');
+    expect((result.data as {transfers: {nodes: unknown[]}}).transfers.nodes).toHaveLength(3);
+    expect(result.declined).toBe(false);
+
+    // Token usage summed over the three recorded LLM turns and priced by the gpt-4o-mini entry
+    expect(result.usage).toMatchObject({promptTokens: 7050, completionTokens: 147, totalTokens: 7197, llmCalls: 3});
+    expect(result.usage.cost).toBeCloseTo((7050 * 0.15 + 147 * 0.6) / 1_000_000, 10);
+    expect(Object.keys(result.usage.byModel)).toEqual(['gpt-4o-mini-2024-07-18']);
+    expect(reported).toEqual([
+      [result.usage, {operation: 'invoke', question: 'Show me the 3 largest transfers', threadId: undefined}],
+    ]);
+  });
+
+  it('should stream a recorded decline', async () => {
+    const agent = createGraphQLAgent(config, {llm: cassette.llm, verbose: 0, fetch: cassette.fetch});
+    const events: GraphQLAgentEvent[] = [];
+    for await (const event of agent.stream('What is the weather in Berlin today?')) {
+      events.push(event);
+    }
+
+    expect(events.some((event) => event.type === 'token')).toBe(true);
+    expect(events.some((event) => event.type === 'tool_start')).toBe(false);
+    expect(events.at(-1)).toMatchObject({type: 'final', answer: config.declineMessage, partial: false});
+    expect(events.at(-1)).toHaveProperty('usage.totalTokens', 1622);
+  });
+
+  it('should reject requests that were not recorded', async () => {
+    await expect(cassette.fetch('https://api.example.com/other/graphql', {method: 'POST', body: '{}'})).rejects.toThrow(
+      'No recorded response for POST https://api.example.com/other/graphql'
+    );
+  });
+});
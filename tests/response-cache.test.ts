@@ -0,0 +1,97 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import {GraphQLService} from '../src/graphql.service.js';
+import {type FetchFn, GraphqlProvider, type GraphQLProjectConfig, GraphQLResponseCache} from '../src/index.js';
+
+const project = {
+  endpoint: 'https://api.example.com/transfers-demo/graphql',
+  cid: 'QmW3JqvJkVWhKkYGu8EpcAb4xKx7i8ZRC5GSJg5mtRUhpC',
+  nodeType: GraphqlProvider.SUBQL,
+} as GraphQLProjectConfig;
+
+// Answers with the current block height and counts the queries sent to the endpoint
+function fakeEndpoint() {
+  const state = {height: 100, queries: [] as string[]};
+  const fetch: FetchFn = async (_input, init) => {
+    const {query} = JSON.parse(init?.body as string) as {query: string};
+    if (query.includes('_metadata')) {
+      return Promise.resolve(Response.json({data: {_metadata: {lastProcessedHeight: state.height}}}));
+    }
+    state.queries.push(query);
+    if (query.includes('mutation')) {
+      return Promise.resolve(Response.json({data: {ok: true}}));
+    }
+    if (query.includes('missing')) {
+      return Promise.resolve(Response.json({errors: [{message: 'Cannot query field "missing"'}]}));
+    }
+    return Promise.resolve(Response.json({data: {transfers: {totalCount: state.height}}}));
+  };
+  return {state, fetch};
+}
+
+describe('GraphQL response cache', () => {
+  it('should reuse responses of identical queries', async () => {
+    const {fetch, state} = fakeEndpoint();
+    const service = new GraphQLService(project, true, undefined, fetch, undefined, new GraphQLResponseCache());
+
+    const first = await service.execute('{ transfers(first: $n) { totalCount } }', {n: 3, offset: 0});
+    const second = await service.execute('query {\n  transfers(first: $n) {\n    totalCount\n  }\n}', {
+      offset: 0,
+      n: 3,
+    });
+    await service.execute('{ transfers(first: $n) { totalCount } }', {n: 4, offset: 0});
+
+    expect(second).toEqual(first);
+    expect(state.queries).toHaveLength(2);
+  });
+
+  it('should not change cached responses when a caller changes its copy', async () => {
+    const {fetch, state} = fakeEndpoint();
+    const service = new GraphQLService(project, true, undefined, fetch, undefined, new GraphQLResponseCache());
+
+    const first = (await service.execute('{ transfers { totalCount } }')) as {data: {transfers: unknown}};
+    first.data.transfers = null;
+
+    expect(await service.execute('{ transfers { totalCount } }')).toEqual({data: {transfers: {totalCount: 100}}});
+    expect(state.queries).toHaveLength(1);
+  });
+
+  it('should not cache mutations or failed queries', async () => {
+    const {fetch, state} = fakeEndpoint();
+    const service = new GraphQLService(project, true, undefined, fetch, undefined, new GraphQLResponseCache());
+
+    for (let i = 0; i < 2; i++) {
+      await service.execute('mutation { ok }');
+      await service.execute('{ missing }');
+    }
+
+    expect(state.queries).toHaveLength(4);
+  });
+
+  it('should refetch once the indexer processed a newer block', async () => {
+    const {fetch, state} = fakeEndpoint();
+    const cache = new GraphQLResponseCache({blockAware: true, ttlMs: 60_000});
+    const service = new GraphQLService(project, true, undefined, fetch, undefined, cache);
+    const query = '{ transfers { totalCount } }';
+
+    await service.execute(query);
+    await service.execute(query);
+    state.height = 101;
+    const latest = (await service.execute(query)) as {data: {transfers: {totalCount: number}}};
+
+    expect(state.queries).toHaveLength(2);
+    expect(latest.data.transfers.totalCount).toBe(101);
+  });
+
+  it('should use the TTL of each project', async () => {
+    const {fetch, state} = fakeEndpoint();
+    const cache = new GraphQLResponseCache({ttlMs: (config) => (config.cid === project.cid ? 0 : 60_000)});
+    const service = new GraphQLService(project, true, undefined, fetch, undefined, cache);
+
+    await service.execute('{ transfers { totalCount } }');
+    await service.execute('{ transfers { totalCount } }');
+
+    expect(state.queries).toHaveLength(2);
+  });
+});
@@ -0,0 +1,54 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import {AIMessage, HumanMessage} from '@langchain/core/messages';
+import {createGraphQLAgent} from '../src/index.js';
+import {buildStructuredAnswer} from '../src/result.js';
+import {analyzeProject, QUESTION, replayTurns, TURNS, UNRELATED_QUESTION} from './fixtures/transfers.js';
+
+const USAGE = {promptTokens: 0, completionTokens: 0, totalTokens: 0, llmCalls: 0, byModel: {}};
+
+describe('Structured answers', () => {
+  it('should return the executed queries and data alongside the answer', async () => {
+    const config = await analyzeProject();
+    const {llm, fetch} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer]);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.answer).toContain('The 3 largest transfers are');
+    expect(result.toolCalls.map(({name}) => name)).toEqual(['graphql_schema_info', 'graphql_query_validator']);
+    expect(result.queries).toHaveLength(1);
+    expect(result.queries[0]).toMatchObject({
+      query: '{ transfers(first: 3, orderBy: AMOUNT_DESC) { nodes { id from to amount blockNumber } } }',
+      ok: true,
+      errors: [],
+    });
+    expect((result.data as {transfers: {nodes: unknown[]}}).transfers.nodes).toHaveLength(3);
+    expect(result).toMatchObject({declined: false, needsUserInput: false, partial: false, cached: false});
+    expect(result.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should flag declined questions', async () => {
+    const config = await analyzeProject();
+    const {llm, fetch} = await replayTurns([TURNS.decline]);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0});
+
+    const result = await agent.invokeStructured(UNRELATED_QUESTION);
+
+    expect(result.answer).toBe(config.declineMessage);
+    expect(result).toMatchObject({declined: true, needsUserInput: false, queries: [], toolCalls: [], data: null});
+  });
+
+  it('should flag answers that ask the user for more information', () => {
+    const question = new HumanMessage('Show me the transfers of my account');
+    const result = buildStructuredAnswer(
+      {messages: [question, new AIMessage('Which account address should I look up?')]},
+      1,
+      'I can only answer questions about transfers.',
+      USAGE
+    );
+
+    expect(result).toMatchObject({declined: false, needsUserInput: true, queries: []});
+  });
+});
@@ -0,0 +1,86 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import type {StoredMessage} from '@langchain/core/messages';
+import {createRouterAgent, type FetchFn, type GraphQLProjectConfig} from '../src/index.js';
+import {createRouterProjects} from '../src/router.js';
+import {analyzeProject, ENDPOINT, QUESTION, replayTurns, TURNS, UNRELATED_QUESTION} from './fixtures/transfers.js';
+
+const KUSAMA_ENDPOINT = 'https://api.example.com/kusama-transfers/graphql';
+
+// Points the recorded tool calls at the tools of one project
+function routeTo(namespace: string) {
+  return (message: StoredMessage): StoredMessage => {
+    const toolCalls = (message.data as {tool_calls?: {name: string}[]}).tool_calls ?? [];
+    for (const call of toolCalls) {
+      call.name = `${namespace}__${call.name}`;
+    }
+    return message;
+  };
+}
+
+// The recorded Polkadot project, and a Kusama project with the same schema served from another endpoint
+async function createProjects(): Promise<GraphQLProjectConfig[]> {
+  const polkadot = await analyzeProject();
+  return [polkadot, {...polkadot, endpoint: KUSAMA_ENDPOINT, domainName: 'Kusama Transfers'}];
+}
+
+describe('Multi-project router', () => {
+  it('should name the tools of every project after its domain', async () => {
+    const [polkadot, kusama] = await createProjects();
+    if (!polkadot || !kusama) throw new Error('Projects not created');
+
+    const routed = createRouterProjects([polkadot, kusama, {...kusama, domainName: 'Kusama transfers!'}]);
+
+    expect(routed.map(({namespace}) => namespace)).toEqual([
+      'polkadot_transfers',
+      'kusama_transfers',
+      'kusama_transfers_2',
+    ]);
+  });
+
+  it('should send the queries of a question to the endpoint of the project it was routed to', async () => {
+    const projects = await createProjects();
+    const {llm, fetch, prompts} = await replayTurns(
+      [TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer],
+      routeTo('kusama_transfers')
+    );
+    // Both projects serve the recorded responses, the requested endpoints show where the query went
+    const endpoints: string[] = [];
+    const routingFetch: FetchFn = async (input, init) => {
+      const url = String(input);
+      if (url === ENDPOINT || url === KUSAMA_ENDPOINT) {
+        endpoints.push(url);
+        return fetch(ENDPOINT, init);
+      }
+      return fetch(input, init);
+    };
+    const agent = createRouterAgent(projects, {llm, fetch: routingFetch, verbose: 0});
+
+    const result = await agent.invokeStructured(QUESTION);
+
+    expect(result.answer).toContain('The 3 largest transfers are');
+    expect(result.toolCalls.map(({name}) => name)).toEqual([
+      'kusama_transfers__graphql_schema_info',
+      'kusama_transfers__graphql_query_validator',
+    ]);
+    expect(result.queries.map(({ok}) => ok)).toEqual([true]);
+    expect(endpoints).toEqual([KUSAMA_ENDPOINT]);
+
+    const systemPrompt = String(prompts[0]?.[0]?.content);
+    expect(systemPrompt).toContain('PROJECT "polkadot_transfers" - Polkadot Transfers');
+    expect(systemPrompt).toContain('PROJECT "kusama_transfers" - Kusama Transfers');
+  });
+
+  it('should decline questions none of the projects can answer', async () => {
+    const {llm, fetch} = await replayTurns([TURNS.decline], (message) => ({
+      ...message,
+      data: {...message.data, content: 'None of the available projects can answer this question.'},
+    }));
+    const agent = createRouterAgent(await createProjects(), {llm, fetch, verbose: 0});
+
+    const result = await agent.invokeStructured(UNRELATED_QUESTION);
+
+    expect(result).toMatchObject({declined: true, queries: [], toolCalls: []});
+  });
+});
@@ -0,0 +1,131 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {
+  diffSchemas,
+  type FetchFn,
+  type GraphQLProjectConfig,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  type SchemaChange,
+} from '../src/index.js';
+
+const ENDPOINT = 'http://localhost:3000/graphql';
+const MANIFEST = 'specVersion: 0.0.5\nschema:\n  file: ./schema.graphql\n';
+const SCHEMA = `
+  type Transfer @entity { id: ID! amount: BigInt! from: Account! memo: String }
+  type Account @entity { id: ID! }
+`;
+
+const fetch: FetchFn = async () => Promise.resolve(Response.json({data: {}}));
+
+function analysis(domainName: string) {
+  return JSON.stringify({
+    domain_name: domainName,
+    domain_capabilities: ['Largest transfers by amount'],
+    decline_message: "I'm specialized in token transfers.",
+  });
+}
+
+// Initializes the same endpoint twice, the second time with a redeployed schema
+async function redeploy(schema: string) {
+  const persistentService = new InMemoryPersistentService();
+  const llm = new FakeListChatModel({responses: [analysis('First Deployment'), analysis('Second Deployment')]});
+  const changes: SchemaChange[] = [];
+  const initialize = async (content: string) =>
+    initializeProjectConfig(ENDPOINT, persistentService, llm, undefined, undefined, {
+      fetch,
+      source: {manifest: MANIFEST, schema: content},
+      onSchemaChange: (change) => {
+        changes.push(change);
+      },
+    });
+
+  const first = await initialize(SCHEMA);
+  const second = await initialize(schema);
+  return {first, second, changes};
+}
+
+describe('Schema diffs', () => {
+  it('should list entities and fields added, removed or retyped', () => {
+    const diff = diffSchemas(
+      SCHEMA,
+      `
+        type Transfer @entity { id: ID! amount: String! from: Account! blockNumber: Int! }
+        type Block @entity { id: ID! }
+      `
+    );
+
+    expect(diff).toEqual({
+      addedEntities: ['Block'],
+      removedEntities: ['Account'],
+      addedFields: [{entity: 'Transfer', field: 'blockNumber', type: 'Int!'}],
+      removedFields: [{entity: 'Transfer', field: 'memo', previousType: 'String'}],
+      retypedFields: [{entity: 'Transfer', field: 'amount', type: 'String!', previousType: 'BigInt!'}],
+    });
+  });
+
+  it('should keep the previous analysis when a redeployment only retypes fields', async () => {
+    const {first, second, changes} = await redeploy(SCHEMA.replace('memo: String', 'memo: String!'));
+
+    expect(second.cid).not.toBe(first.cid);
+    expect(second).toMatchObject({domainName: 'First Deployment', lastAnalyzedAt: first.lastAnalyzedAt});
+    expect(second.schemaContent).toContain('memo: String!');
+    expect(changes).toEqual([
+      {
+        endpoint: ENDPOINT,
+        previousCid: first.cid,
+        cid: second.cid,
+        reanalyze: false,
+        diff: expect.objectContaining({
+          retypedFields: [{entity: 'Transfer', field: 'memo', type: 'String!', previousType: 'String'}],
+        }),
+      },
+    ]);
+  });
+
+  it('should analyze the project again when a redeployment removes fields', async () => {
+    const {second, changes} = await redeploy(SCHEMA.replace('memo: String', ''));
+
+    expect(second.domainName).toBe('Second Deployment');
+    expect(changes).toEqual([
+      expect.objectContaining({
+        reanalyze: true,
+        diff: expect.objectContaining({removedFields: [{entity: 'Transfer', field: 'memo', previousType: 'String'}]}),
+      }),
+    ]);
+  });
+
+  it('should analyze the project again when the previous schema does not parse', async () => {
+    const persistentService = new InMemoryPersistentService();
+    const llm = new FakeListChatModel({responses: [analysis('Second Deployment')]});
+    const changes: SchemaChange[] = [];
+    await persistentService.save(ENDPOINT, {
+      cid: 'QmPrevious',
+      endpoint: ENDPOINT,
+      domainName: 'First Deployment',
+      schemaContent: 'type Transfer @entity {',
+    } as GraphQLProjectConfig);
+
+    const config = await initializeProjectConfig(ENDPOINT, persistentService, llm, undefined, undefined, {
+      fetch,
+      source: {manifest: MANIFEST, schema: SCHEMA},
+      onSchemaChange: (change) => {
+        changes.push(change);
+      },
+    });
+
+    expect(config).toMatchObject({domainName: 'Second Deployment'});
+    expect(config.lastAnalysisError).toBeUndefined();
+    expect(changes).toEqual([]);
+  });
+
+  it('should not take the config of another endpoint on the same host for a previous deployment', async () => {
+    const persistentService = new InMemoryPersistentService();
+    await persistentService.save(ENDPOINT, {cid: 'QmPrevious', endpoint: ENDPOINT} as GraphQLProjectConfig);
+
+    expect(await persistentService.load('http://localhost')).toBeUndefined();
+    expect(await persistentService.load(ENDPOINT)).toMatchObject({cid: 'QmPrevious'});
+  });
+});
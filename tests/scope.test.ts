@@ -0,0 +1,100 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect, beforeAll} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {parseScopeClassification} from '../src/scope.js';
+import {
+  type CassetteHandle,
+  createGraphQLAgent,
+  type GraphQLAgentEvent,
+  type GraphQLProjectConfig,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  openCassette,
+} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+
+describe('Scope classification parsing', () => {
+  const scope = {domainName: 'Polkadot Transfers', capabilities: ['Largest transfers by amount']};
+
+  it('should match capabilities and clamp the confidence', () => {
+    const classification = parseScopeClassification(
+      '```json\n{"scope": "in_scope", "capability": "largest transfers by amount ", "confidence": 1.4}\n```',
+      scope
+    );
+
+    expect(classification).toEqual({scope: 'in_scope', capability: 'Largest transfers by amount', confidence: 1});
+  });
+
+  it('should drop capabilities the project does not have', () => {
+    expect(
+      parseScopeClassification('{"scope": "out_of_scope", "capability": "Weather", "confidence": 0.9}', scope)
+    ).toEqual({scope: 'out_of_scope', confidence: 0.9});
+    expect(() => parseScopeClassification('{"scope": "maybe"}', scope)).toThrow('Invalid scope classification');
+  });
+});
+
+// The recorded LLM responses are replayed in order, the classifications come from a separate fake model
+describe('Scope classifier', () => {
+  let cassette: CassetteHandle;
+  let config: GraphQLProjectConfig;
+
+  const createAgent = (...responses: string[]) =>
+    createGraphQLAgent(config, {
+      llm: cassette.llm,
+      verbose: 0,
+      fetch: cassette.fetch,
+      scopeClassifier: {model: new FakeListChatModel({responses}), threshold: 0.8},
+    });
+
+  beforeAll(async () => {
+    cassette = await openCassette(CASSETTE, 'replay');
+    config = await initializeProjectConfig(
+      ENDPOINT,
+      new InMemoryPersistentService(),
+      cassette.llm,
+      undefined,
+      undefined,
+      {fetch: cassette.fetch}
+    );
+  });
+
+  it('should decline out of scope questions without running the agent', async () => {
+    const agent = createAgent('{"scope": "out_of_scope", "capability": null, "confidence": 0.95}');
+    const result = await agent.invokeStructured('What is the weather in Berlin today?');
+
+    expect(result).toMatchObject({answer: config.declineMessage, declined: true, toolCalls: []});
+    expect(result.scope).toEqual({scope: 'out_of_scope', confidence: 0.95});
+  });
+
+  it('should ask for clarification', async () => {
+    const agent = createAgent(
+      '{"scope": "needs_clarification", "confidence": 0.9, "clarification": "Which account do you mean?"}'
+    );
+    const events: GraphQLAgentEvent[] = [];
+    for await (const event of agent.stream('How much did they send?')) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.type)).toEqual(['scope', 'final']);
+    expect(events.at(-1)).toMatchObject({answer: 'Which account do you mean?', partial: false});
+  });
+
+  it('should run the agent for in scope questions and report the capability', async () => {
+    const agent = createAgent(
+      '{"scope": "in_scope", "capability": "Largest transfers by amount", "confidence": 0.9}',
+      // Below the threshold, so the agent answers even though it was classified out of scope
+      '{"scope": "out_of_scope", "confidence": 0.5}'
+    );
+    const result = await agent.invokeStructured('Show me the 3 largest transfers');
+
+    expect(result.answer).toContain('The 3 largest transfers are');
+    expect(result.scope?.capability).toBe('Largest transfers by amount');
+
+    const declined = await agent.invoke('What is the weather in Berlin today?');
+    expect(declined).toBe(config.declineMessage);
+  });
+});
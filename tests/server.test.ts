@@ -0,0 +1,375 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {createServer} from 'node:http';
+import type {AddressInfo} from 'net';
+import path from 'path';
+import {describe, it, expect, beforeAll, afterAll, jest} from '@jest/globals';
+import {parseChatCompletionRequest, respondWithChatCompletion, toAgentInput} from '../src/chat-completions.js';
+import {
+  type AgentServerOptions,
+  createAgentServer,
+  type FetchFn,
+  type GraphQLAgent,
+  type GraphQLAgentConfig,
+  type GraphQLAgentEvent,
+  InMemoryConversationStore,
+  InMemoryPersistentService,
+  openCassette,
+  QuotaLimiter,
+} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+
+// Parses a Server-Sent Events body into its events
+function parseEvents(body: string): Array<{event: string; data: Record<string, unknown>}> {
+  return body
+    .split('\n\n')
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      return {
+        event: eventLine?.replace('event: ', '') ?? '',
+        data: JSON.parse(dataLine?.replace('data: ', '') ?? '{}') as Record<string, unknown>,
+      };
+    });
+}
+
+// Starts a server replaying the cassette, its recorded LLM responses are replayed in order
+function replayServer(agentConfig: Partial<GraphQLAgentConfig> = {}, options: Partial<AgentServerOptions> = {}) {
+  let server: ReturnType<typeof createAgentServer>;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    const cassette = await openCassette(CASSETTE, 'replay');
+    server = createAgentServer({
+      persistentService: new InMemoryPersistentService(),
+      agentConfig: {llm: cassette.llm, verbose: 0, fetch: cassette.fetch, ...agentConfig},
+      ...options,
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  return {
+    get: async (route: string) => fetch(`${baseUrl}${route}`),
+    post: async (route: string, body: unknown) =>
+      fetch(`${baseUrl}${route}`, {
+        method: 'POST',
+        headers: {'content-type': 'application/json'},
+        body: JSON.stringify(body),
+      }),
+    postRaw: async (route: string, body: string) => fetch(`${baseUrl}${route}`, {method: 'POST', body}),
+  };
+}
+
+describe('GraphQL Agent HTTP server', () => {
+  const {get, post, postRaw} = replayServer();
+
+  it('should register an endpoint', async () => {
+    const response = await post('/projects', {endpoint: ENDPOINT});
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      endpoint: ENDPOINT,
+      model: 'polkadot-transfers',
+      cid: 'QmW3JqvJkVWhKkYGu8EpcAb4xKx7i8ZRC5GSJg5mtRUhpC',
+      domainName: 'Polkadot Transfers',
+    });
+  });
+
+  it('should answer a question', async () => {
+    const response = await post('/ask', {
+      endpoint: ENDPOINT,
+      question: 'Show me the 3 largest transfers',
+      threadId: 'thread-1',
+    });
+
+    expect(response.status).toBe(200);
+    const {answer} = (await response.json()) as {answer: string};
+    expect(answer).toContain('The 3 largest transfers are');
+  });
+
+  it('should stream an answer as Server-Sent Events', async () => {
+    // Registering the endpoint again keeps its sessions, the thread of the previous question is continued
+    expect((await post('/projects', {endpoint: ENDPOINT})).status).toBe(200);
+    const load = jest.spyOn(InMemoryConversationStore.prototype, 'load');
+    const response = await post('/ask/stream', {
+      endpoint: ENDPOINT,
+      question: 'What is the weather in Berlin today?',
+      threadId: 'thread-1',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = parseEvents(await response.text());
+    expect(events.some(({event}) => event === 'token')).toBe(true);
+    expect(events.at(-1)).toMatchObject({event: 'final', data: {type: 'final', partial: false}});
+    expect(await load.mock.results[0]?.value).toEqual(expect.arrayContaining([expect.objectContaining({type: 'ai'})]));
+    load.mockRestore();
+  });
+
+  it('should only answer questions about registered endpoints', async () => {
+    const unregistered = await post('/ask', {endpoint: 'https://api.example.com/other/graphql', question: 'Hi'});
+    expect(unregistered.status).toBe(404);
+
+    // Registered without a credential, so a caller with one doesn't share its project
+    const otherCredential = await post('/ask/stream', {
+      endpoint: ENDPOINT,
+      authorization: 'Bearer other',
+      question: 'Hi',
+    });
+    expect(otherCredential.status).toBe(404);
+
+    const local = await post('/projects', {endpoint: 'http://localhost:3000/graphql'});
+    expect(local.status).toBe(400);
+    expect(await local.json()).toEqual({error: 'Access to local/internal hosts is forbidden'});
+  });
+
+  it('should reject invalid requests', async () => {
+    const missing = await post('/ask', {endpoint: ENDPOINT});
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({error: '"question" is required'});
+
+    const invalid = await postRaw('/ask', 'not json');
+    expect(invalid.status).toBe(400);
+
+    const unknown = await get('/unknown');
+    expect(unknown.status).toBe(404);
+  });
+});
+
+describe('Quotas over HTTP', () => {
+  const {post} = replayServer({quota: new QuotaLimiter({requestsPerMinute: 1})});
+
+  beforeAll(() => {
+    // Every request falls into the same minute
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2025, 0, 31, 12, 0, 30));
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should turn streamed questions away with a 429 before the stream starts', async () => {
+    // Registering uses up the only request of the minute
+    expect((await post('/projects', {endpoint: ENDPOINT})).status).toBe(200);
+    const response = await post('/ask/stream', {endpoint: ENDPOINT, question: 'Show me the 3 largest transfers'});
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBeTruthy();
+    expect(await response.json()).toEqual({error: expect.stringContaining('Rate limit exceeded')});
+
+    const completion = await post('/v1/chat/completions', {
+      model: 'polkadot-transfers',
+      stream: true,
+      messages: [{role: 'user', content: 'Show me the 3 largest transfers'}],
+    });
+    expect(completion.status).toBe(429);
+    expect(await completion.json()).toMatchObject({error: {code: 'rate_limit_exceeded'}});
+  });
+
+  it('should turn registrations away once the tenant is over its quota', async () => {
+    const response = await post('/projects', {endpoint: ENDPOINT, authorization: 'Bearer other'});
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({error: expect.stringContaining('Rate limit exceeded')});
+  });
+});
+
+describe('Registered projects', () => {
+  const {post} = replayServer({}, {maxProjects: 1});
+
+  it('should drop the least recently used project once there are too many', async () => {
+    expect((await post('/projects', {endpoint: ENDPOINT, authorization: 'Bearer acme'})).status).toBe(200);
+    expect((await post('/projects', {endpoint: ENDPOINT, authorization: 'Bearer globex'})).status).toBe(200);
+
+    const dropped = await post('/ask', {endpoint: ENDPOINT, authorization: 'Bearer acme', question: 'Hi'});
+    expect(dropped.status).toBe(404);
+  });
+
+  it('should not follow redirects of a registered endpoint to private hosts', async () => {
+    const metadata = 'http://169.254.169.254/latest/meta-data';
+    const requested: string[] = [];
+    // Like fetch, redirects are followed unless the caller handles them itself
+    const redirecting: FetchFn = async (input, init) => {
+      requested.push(String(input));
+      if (init?.redirect !== 'manual') {
+        requested.push(metadata);
+      }
+      return Promise.resolve(new Response(null, {status: 307, headers: {location: metadata}}));
+    };
+    const server = createAgentServer({
+      persistentService: new InMemoryPersistentService(),
+      agentConfig: {llm: (await openCassette(CASSETTE, 'replay')).llm, verbose: 0, fetch: redirecting},
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/projects`, {
+        method: 'POST',
+        body: JSON.stringify({endpoint: ENDPOINT}),
+      });
+
+      expect(response.status).not.toBe(200);
+      expect(requested.length).toBeGreaterThan(0);
+      expect(requested).not.toContain(metadata);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('OpenAI compatible chat completions', () => {
+  const {get, post} = replayServer();
+
+  it('should list registered projects as models', async () => {
+    await post('/projects', {endpoint: ENDPOINT});
+    const response = await get('/v1/models');
+
+    expect(await response.json()).toMatchObject({
+      object: 'list',
+      data: [{id: 'polkadot-transfers', object: 'model', owned_by: 'subquery'}],
+    });
+  });
+
+  it('should answer a chat completion', async () => {
+    const response = await post('/v1/chat/completions', {
+      model: 'polkadot-transfers',
+      messages: [
+        {role: 'system', content: 'You are a helpful assistant.'},
+        {role: 'user', content: 'Show me the 3 largest transfers'},
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    const completion = (await response.json()) as {choices: Array<{message: {content: string}}>};
+    expect(completion).toMatchObject({
+      object: 'chat.completion',
+      model: 'polkadot-transfers',
+      choices: [{index: 0, message: {role: 'assistant'}, finish_reason: 'stop'}],
+      usage: {prompt_tokens: 7050, completion_tokens: 147, total_tokens: 7197},
+    });
+    expect(completion.choices[0]?.message.content).toContain('The 3 largest transfers are');
+  });
+
+  it('should stream a chat completion', async () => {
+    const response = await post('/v1/chat/completions', {
+      model: 'polkadot-transfers',
+      stream: true,
+      stream_options: {include_usage: true},
+      messages: [
+        {role: 'user', content: 'Show me the 3 largest transfers'},
+        {role: 'assistant', content: 'The 3 largest transfers are ...'},
+        {role: 'user', content: [{type: 'text', text: 'What is the weather in Berlin today?'}]},
+      ],
+    });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const data = (await response.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((event) => event.replace(/^data: /, ''));
+    const chunks = data.slice(0, -1).map((chunk) => JSON.parse(chunk)) as Array<{
+      choices: Array<{delta: {content?: string}; finish_reason: string | null}>;
+      usage?: {total_tokens: number};
+    }>;
+    const content = chunks.map((chunk) => chunk.choices[0]?.delta.content ?? '').join('');
+
+    expect(content).toContain("I'm specialized in Polkadot balance transfers");
+    expect(chunks.at(-2)?.choices[0]?.finish_reason).toBe('stop');
+    expect(chunks.at(-1)?.usage?.total_tokens).toBe(1622);
+    expect(data.at(-1)).toBe('[DONE]');
+  });
+
+  it('should stream the answer step before the run ends, without the text written before a tool call', async () => {
+    const usage = {promptTokens: 0, completionTokens: 0, totalTokens: 0, llmCalls: 0, byModel: {}};
+    // The run waits for the client to read the answer, or gives up after a second, before it ends
+    let answerRead = false;
+    let readBeforeFinal = false;
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+      setTimeout(resolve, 1000).unref();
+    });
+    const agent = {
+      async *stream() {
+        yield {type: 'token', content: 'Let me check '};
+        yield {type: 'token', content: 'the transfers.'};
+        yield {type: 'step_end', toolCalls: true};
+        yield {type: 'tool_start', tool: 'graphql_execute'};
+        yield {type: 'tool_end', tool: 'graphql_execute', output: '{}'};
+        yield {type: 'token', content: 'The largest '};
+        yield {type: 'token', content: 'transfer is 250 DOT.'};
+        yield {type: 'step_end', toolCalls: false};
+        await released;
+        readBeforeFinal = answerRead;
+        yield {type: 'final', answer: 'The largest transfer is 250 DOT.', partial: false, usage};
+      },
+    } as unknown as GraphQLAgent;
+    const request = parseChatCompletionRequest({
+      model: 'transfers',
+      stream: true,
+      messages: [{role: 'user', content: 'Hi'}],
+    });
+    const server = createServer(
+      (_req, res) => void respondWithChatCompletion(res, agent, request, new AbortController().signal)
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      const reader = (response.body as ReadableStream<Uint8Array>).pipeThrough(new TextDecoderStream()).getReader();
+      let raw = '';
+      const contentOf = (text: string) =>
+        text
+          .split('\n\n')
+          .filter((event) => event.startsWith('data: {'))
+          .map((event) => JSON.parse(event.replace(/^data: /, '')) as {choices: Array<{delta: {content?: string}}>})
+          .map((chunk) => chunk.choices[0]?.delta.content ?? '')
+          .join('');
+      for (let read = await reader.read(); !read.done; read = await reader.read()) {
+        raw += read.value;
+        if (contentOf(raw) === 'The largest transfer is 250 DOT.') {
+          answerRead = true;
+          release();
+        }
+      }
+
+      expect(contentOf(raw)).toBe('The largest transfer is 250 DOT.');
+      expect(readBeforeFinal).toBe(true);
+      expect(raw).toContain('"finish_reason":"stop"');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('should return OpenAI errors for unknown models', async () => {
+    const response = await post('/v1/chat/completions', {model: 'gpt-4o', messages: [{role: 'user', content: 'hi'}]});
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({error: {type: 'invalid_request_error', code: 'model_not_found'}});
+  });
+
+  it('should map messages to the question and prior turns', () => {
+    const {history, question} = toAgentInput([
+      {role: 'system', content: 'Be brief'},
+      {role: 'user', content: 'Largest transfer?'},
+      {role: 'assistant', content: '250 DOT'},
+      {role: 'user', content: 'Who sent it?'},
+    ]);
+
+    expect(question).toBe('Who sent it?');
+    expect(history.map((message) => [message.getType(), message.content])).toEqual([
+      ['human', 'Largest transfer?'],
+      ['ai', '250 DOT'],
+    ]);
+    expect(() => toAgentInput([{role: 'assistant', content: 'Hello'}])).toThrow(
+      'The last message must be a user message'
+    );
+  });
+});
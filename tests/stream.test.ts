@@ -0,0 +1,71 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import type {StreamEvent} from '@langchain/core/tracers/log_stream';
+import {createGraphQLAgent, type GraphQLAgentEvent} from '../src/index.js';
+import {parseValidationFailure, toAgentEvents} from '../src/stream.js';
+import {analyzeProject, QUESTION, replayTurns, TURNS} from './fixtures/transfers.js';
+
+const QUERY = '{ transfers(first: 3, orderBy: AMOUNT_DESC) { nodes { id from to amount blockNumber } } }';
+
+describe('Streaming', () => {
+  it('should stream the tool calls and answer of a run', async () => {
+    const config = await analyzeProject();
+    const {llm, fetch} = await replayTurns([TURNS.schemaToolCall, TURNS.queryToolCall, TURNS.answer]);
+    const agent = createGraphQLAgent(config, {llm, fetch, verbose: 0});
+
+    const events: GraphQLAgentEvent[] = [];
+    for await (const event of agent.stream(QUESTION)) {
+      events.push(event);
+    }
+
+    const tools = events.filter((event) => event.type === 'tool_start' || event.type === 'tool_end');
+    expect(tools.map((event) => [event.type, event.tool, event.query])).toEqual([
+      ['tool_start', 'graphql_schema_info', undefined],
+      ['tool_end', 'graphql_schema_info', undefined],
+      ['tool_start', 'graphql_query_validator', QUERY],
+      ['tool_end', 'graphql_query_validator', QUERY],
+    ]);
+    expect(events.some((event) => event.type === 'validation_failed')).toBe(false);
+    // Both tool calling steps end before the answer step
+    expect(events.filter((event) => event.type === 'step_end')).toEqual([
+      {type: 'step_end', toolCalls: true},
+      {type: 'step_end', toolCalls: true},
+      {type: 'step_end', toolCalls: false},
+    ]);
+
+    const final = events.at(-1);
+    expect(final?.type).toBe('final');
+    if (final?.type !== 'final') return;
+    expect(final.answer).toContain('The 3 largest transfers are');
+    expect(final.partial).toBe(false);
+    expect(final.usage.totalTokens).toBeGreaterThan(0);
+
+    // The answer is streamed as tokens after the last tool call
+    const lastTool = events.findLastIndex((event) => event.type === 'tool_end');
+    const tokens = events.slice(lastTool).filter((event) => event.type === 'token');
+    expect(tokens.map((event) => (event.type === 'token' ? event.content : '')).join('')).toBe(final.answer);
+  });
+
+  it('should report failed validations of the query validator', () => {
+    const output =
+      '❌ Schema validation failed:\n- Cannot query field "amounts" on type "Transfer".\n- Unknown argument "top".';
+    const event = {
+      event: 'on_tool_end',
+      name: 'graphql_query_validator',
+      run_id: 'run-1',
+      metadata: {},
+      data: {input: {query: '{ transfers { amounts } }'}, output},
+    } as unknown as StreamEvent;
+
+    expect(toAgentEvents(event)).toEqual([
+      {type: 'tool_end', tool: 'graphql_query_validator', query: '{ transfers { amounts } }', output},
+      {
+        type: 'validation_failed',
+        query: '{ transfers { amounts } }',
+        errors: ['Cannot query field "amounts" on type "Transfer".', 'Unknown argument "top".'],
+      },
+    ]);
+    expect(parseValidationFailure('✅ Query is valid')).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import {describe, it, expect} from '@jest/globals';
+import {FakeListChatModel} from '@langchain/core/utils/testing';
+import {buildSchema, introspectionFromSchema} from 'graphql';
+import {
+  type FetchFn,
+  InMemoryPersistentService,
+  initializeProjectConfig,
+  type SuggestedQuestionsOptions,
+} from '../src/index.js';
+
+const ENDPOINT = 'https://api.example.com/transfers/graphql';
+const INTROSPECTION = introspectionFromSchema(
+  buildSchema(`
+    type Transfer { id: ID! amount: Int! memo: String }
+    type Query { transfers(first: Int): [Transfer!]! }
+  `)
+);
+
+const ANALYSIS = JSON.stringify({
+  domain_name: 'Token Transfers',
+  domain_capabilities: ['Largest transfers by amount'],
+  decline_message: "I'm specialized in token transfers.",
+  suggested_questions: ['What are the 5 largest transfers?', 'Who sent the most transfers?', 'Show transfer memos'],
+});
+
+// Replies of the agent model to the three questions, the second one uses a field that doesn't exist
+const QUERIES = [
+  '```graphql\n{ transfers(first: 5) { id amount } }\n```',
+  '{ transfers { sender } }',
+  '{ transfers(first: 5) { memo } }',
+];
+
+// Transfers have no memos, so only the first query returns data
+const fetch: FetchFn = async (_input, init) => {
+  const {query} = JSON.parse(init?.body as string) as {query: string};
+  if (query.includes('__schema')) {
+    return Promise.resolve(Response.json({data: INTROSPECTION}));
+  }
+  return Promise.resolve(
+    Response.json({
+      data: {transfers: query.includes('memo') ? [{memo: null}] : [{id: '0x1', amount: 100}]},
+    })
+  );
+};
+
+async function initialize(suggestedQuestions?: SuggestedQuestionsOptions, fetchFn = fetch) {
+  return initializeProjectConfig(
+    ENDPOINT,
+    new InMemoryPersistentService(),
+    new FakeListChatModel({responses: [ANALYSIS, ...QUERIES]}),
+    undefined,
+    undefined,
+    {fetch: fetchFn, introspectionOnly: true, ...(suggestedQuestions ? {suggestedQuestions} : {})}
+  );
+}
+
+describe('Suggested questions', () => {
+  it('should only keep the questions whose query passes validation', async () => {
+    const config = await initialize({count: 3});
+
+    expect(config.suggestedQuestions).toEqual(['What are the 5 largest transfers?', 'Show transfer memos']);
+    expect(config.lastAnalysisUsage?.llmCalls).toBe(4);
+  });
+
+  it('should drop questions whose query returns no data when data is required', async () => {
+    const config = await initialize({count: 3, requireData: true});
+
+    expect(config.suggestedQuestions).toEqual(['What are the 5 largest transfers?']);
+  });
+
+  it('should not count the total of an empty connection as data', async () => {
+    // The memo query matches nothing, the endpoint answers it with an empty connection
+    const emptyFetch: FetchFn = async (input, init) => {
+      const {query} = JSON.parse(init?.body as string) as {query: string};
+      if (query.includes('memo')) {
+        return Promise.resolve(Response.json({data: {transfers: {nodes: [], totalCount: 0}}}));
+      }
+      return fetch(input, init);
+    };
+
+    const config = await initialize({count: 3, requireData: true}, emptyFetch);
+
+    expect(config.suggestedQuestions).toEqual(['What are the 5 largest transfers?']);
+  });
+
+  it('should not suggest questions unless asked to', async () => {
+    const config = await initialize();
+
+    expect(config.domainName).toBe('Token Transfers');
+    expect(config).not.toHaveProperty('suggestedQuestions');
+  });
+});
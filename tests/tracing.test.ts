@@ -0,0 +1,149 @@
+// Copyright 2020-2025 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+import path from 'path';
+import {describe, it, expect, beforeAll, afterAll} from '@jest/globals';
+import {context} from '@opentelemetry/api';
+import {AsyncLocalStorageContextManager} from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  type CassetteHandle,
+  createGraphQLAgent,
+  type GraphQLProjectConfig,
+  initializeProjectConfig,
+  openCassette,
+  type PersistentService,
+} from '../src/index.js';
+
+const CASSETTE = path.resolve('tests', 'fixtures', 'transfers.cassette.json');
+const ENDPOINT = 'https://api.example.com/transfers-demo/graphql';
+
+class InMemoryPersistentService implements PersistentService {
+  private configs = new Map<string, GraphQLProjectConfig>();
+
+  async save(endpoint: string, config: GraphQLProjectConfig): Promise<void> {
+    this.configs.set(`${endpoint}:${config.cid}`, config);
+    return Promise.resolve();
+  }
+
+  async load(endpoint: string, cid?: string): Promise<GraphQLProjectConfig | undefined> {
+    return Promise.resolve(this.configs.get(`${endpoint}:${cid}`));
+  }
+}
+
+function findSpan(spans: ReadableSpan[], name: string): ReadableSpan {
+  const span = spans.find((candidate) => candidate.name === name);
+  if (!span) {
+    throw new Error(`No span named ${name}, got ${spans.map(({name}) => name).join(', ')}`);
+  }
+  return span;
+}
+
+function childrenOf(spans: ReadableSpan[], parent: ReadableSpan): string[] {
+  return spans
+    .filter((span) => span.parentSpanId === parent.spanContext().spanId)
+    .map((span) => span.name)
+    .sort();
+}
+
+describe('GraphQL Agent tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({spanProcessors: [new SimpleSpanProcessor(exporter)]});
+  const tracer = provider.getTracer('sq-graphql-agent-test');
+  const contextManager = new AsyncLocalStorageContextManager();
+
+  beforeAll(() => {
+    // Registered by the OpenTelemetry Node SDK in applications, spans need it to find their parent
+    context.setGlobalContextManager(contextManager.enable());
+  });
+
+  afterAll(async () => {
+    contextManager.disable();
+    context.disable();
+    await provider.shutdown();
+  });
+
+  let config: GraphQLProjectConfig;
+  let cassette: CassetteHandle;
+
+  it('should record spans for initialization, LLM calls, tools and queries', async () => {
+    cassette = await openCassette(CASSETTE, 'replay');
+    config = await initializeProjectConfig(
+      ENDPOINT,
+      new InMemoryPersistentService(),
+      cassette.llm,
+      undefined,
+      undefined,
+      {fetch: cassette.fetch, tracer}
+    );
+
+    const initSpans = exporter.getFinishedSpans();
+    const init = findSpan(initSpans, 'graphql_agent.initialize');
+    expect(init.attributes).toMatchObject({
+      'graphql_agent.endpoint': ENDPOINT,
+      'graphql_agent.cid': config.cid,
+    });
+    expect(findSpan(initSpans, 'graphql.cid_lookup').attributes['graphql_agent.cid']).toBe(config.cid);
+    expect(childrenOf(initSpans, init)).toEqual(
+      expect.arrayContaining(['chat', 'graphql.cid_lookup', 'graphql.introspection', 'ipfs.fetch'])
+    );
+    exporter.reset();
+
+    const agent = createGraphQLAgent(config, {llm: cassette.llm, verbose: 0, fetch: cassette.fetch, tracer});
+    const result = await agent.invokeStructured('Show me the 3 largest transfers');
+    expect(result.queries[0]?.ok).toBe(true);
+
+    const spans = exporter.getFinishedSpans();
+    const invoke = findSpan(spans, 'graphql_agent.invoke');
+    expect(invoke.parentSpanId).toBeUndefined();
+    expect(invoke.attributes).toMatchObject({
+      'graphql_agent.operation': 'invoke_structured',
+      'graphql_agent.domain': 'Polkadot Transfers',
+      'graphql_agent.partial': false,
+      'gen_ai.usage.input_tokens': 7050,
+      'gen_ai.usage.output_tokens': 147,
+    });
+    expect(childrenOf(spans, invoke)).toEqual([
+      'chat',
+      'chat',
+      'chat',
+      'execute_tool graphql_query_validator',
+      'execute_tool graphql_schema_info',
+    ]);
+
+    const chat = findSpan(spans, 'chat');
+    expect(chat.attributes).toMatchObject({
+      'gen_ai.response.model': 'gpt-4o-mini-2024-07-18',
+      'gen_ai.usage.input_tokens': 1620,
+      'gen_ai.usage.output_tokens': 18,
+      'graphql_agent.tool_calls': 1,
+    });
+
+    const validator = findSpan(spans, 'execute_tool graphql_query_validator');
+    expect(validator.attributes).toMatchObject({
+      'gen_ai.tool.name': 'graphql_query_validator',
+      'graphql_agent.validation': 'passed',
+      'graphql_agent.query_ok': true,
+      'graphql_agent.row_count': 3,
+    });
+    expect(validator.attributes['graphql_agent.query_hash']).toMatch(/^[0-9a-f]{16}$/);
+    expect(childrenOf(spans, validator)).toEqual(['graphql.execute']);
+  });
+
+  it('should parent LLM spans of a stream to its invoke span', async () => {
+    exporter.reset();
+    const agent = createGraphQLAgent(config, {llm: cassette.llm, verbose: 0, fetch: cassette.fetch, tracer});
+    for await (const event of agent.stream('What is the weather in Berlin today?')) {
+      expect(event.type).not.toBe('tool_start');
+    }
+
+    const spans = exporter.getFinishedSpans();
+    const invoke = findSpan(spans, 'graphql_agent.invoke');
+    expect(invoke.attributes).toMatchObject({'graphql_agent.operation': 'stream', 'graphql_agent.llm_calls': 1});
+    expect(childrenOf(spans, invoke)).toEqual(['chat']);
+  });
+});